@@ -0,0 +1,168 @@
+const { SL1Client, QUERIES } = require('./sl1-client');
+
+// Loaded on demand by the canvas details panel, so results are not cached
+const RELATIONSHIP_PAGE_SIZE = 500;
+// Devices with more relationships than this are flagged as incomplete rather than paged on
+const MAX_RELATIONSHIP_PAGES = 10;
+
+exports.handler = async (event) => {
+  const headers = {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': process.env.CORS_ORIGIN || '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'OPTIONS,GET'
+  };
+
+  // Handle OPTIONS request for CORS
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: ''
+    };
+  }
+
+  try {
+    const deviceId = String(event.pathParameters?.id || '').trim();
+
+    if (!deviceId) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Missing device ID',
+          message: 'A device ID is required'
+        })
+      };
+    }
+
+    const sl1Client = new SL1Client();
+    const data = await sl1Client.query(QUERIES.GET_DEVICE_DETAILS, {
+      search: {
+        id: {
+          eq: deviceId
+        }
+      }
+    });
+
+    const device = data.devices?.edges?.[0]?.node;
+    if (!device) {
+      return {
+        statusCode: 404,
+        headers,
+        body: JSON.stringify({
+          error: 'Device not found',
+          message: `SL1 has no device with ID ${deviceId}`
+        })
+      };
+    }
+
+    // Only the relationships this device is part of, as parent or child
+    const { relationshipEdges, hasMore } = await fetchDeviceRelationships(sl1Client, deviceId);
+
+    const parents = new Map();
+    const children = new Map();
+    relationshipEdges.forEach(edge => {
+      const parent = edge.node.parentDevice;
+      const child = edge.node.childDevice;
+      if (!parent || !child) return;
+
+      if (child.id === deviceId && parent.id !== deviceId) {
+        parents.set(parent.id, toRelative(parent));
+      }
+      if (parent.id === deviceId && child.id !== deviceId) {
+        children.set(child.id, toRelative(child));
+      }
+    });
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        id: device.id,
+        name: device.name,
+        ip: device.ip || 'N/A',
+        type: device.deviceClass?.class || 'Unknown',
+        status: normalizeStatus(device.state),
+        state: device.state || null,
+        deviceClass: device.deviceClass?.description || device.deviceClass?.class || null,
+        organization: device.organization ? { id: device.organization.id, name: device.organization.name || device.organization.id } : null,
+        collector: device.collectorGroup ? { id: device.collectorGroup.id, name: device.collectorGroup.name || device.collectorGroup.id } : null,
+        lastDiscovered: toIsoDate(device.dateLastDiscovery),
+        parents: Array.from(parents.values()),
+        children: Array.from(children.values()),
+        relationshipsIncomplete: hasMore
+      })
+    };
+
+  } catch (error) {
+    console.error('Error fetching device details:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Failed to fetch device details',
+        message: error.message
+      })
+    };
+  }
+};
+
+// Helper functions
+async function fetchDeviceRelationships(sl1Client, deviceId) {
+  const search = {
+    OR: [
+      { parentDevice: { id: { eq: deviceId } } },
+      { childDevice: { id: { eq: deviceId } } }
+    ]
+  };
+  const relationshipEdges = [];
+  let after = null;
+  let hasMore = false;
+
+  for (let page = 0; page < MAX_RELATIONSHIP_PAGES; page++) {
+    const data = await sl1Client.query(QUERIES.GET_DEVICE_RELATIONSHIPS, {
+      first: RELATIONSHIP_PAGE_SIZE,
+      after,
+      search
+    });
+    const edges = data.deviceRelationships?.edges || [];
+    relationshipEdges.push(...edges);
+    hasMore = !!data.deviceRelationships?.pageInfo?.hasNextPage && edges.length > 0;
+    if (!hasMore) break;
+    after = edges[edges.length - 1].cursor;
+  }
+
+  return { relationshipEdges, hasMore };
+}
+
+function toRelative(device) {
+  return {
+    id: device.id,
+    name: device.name,
+    ip: device.ip || 'N/A',
+    status: normalizeStatus(device.state)
+  };
+}
+
+// SL1 returns discovery dates as epoch seconds
+function toIsoDate(value) {
+  if (value === null || value === undefined || value === '') return null;
+  const seconds = Number(value);
+  const date = Number.isFinite(seconds) ? new Date(seconds * 1000) : new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function normalizeStatus(status) {
+  if (!status) return 'unknown';
+
+  const statusLower = status.toLowerCase();
+  if (statusLower.includes('online') || statusLower.includes('up') || statusLower.includes('healthy')) {
+    return 'online';
+  } else if (statusLower.includes('offline') || statusLower.includes('down')) {
+    return 'offline';
+  } else if (statusLower.includes('warning') || statusLower.includes('degraded')) {
+    return 'warning';
+  }
+  return 'unknown';
+}
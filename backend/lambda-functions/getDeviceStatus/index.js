@@ -0,0 +1,104 @@
+const { SL1Client, QUERIES } = require('./sl1-client');
+
+// Status is polled by the canvas auto-refresh, so results are never cached
+const MAX_DEVICE_IDS = 5000;
+
+exports.handler = async (event) => {
+  const headers = {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': process.env.CORS_ORIGIN || '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'OPTIONS,POST'
+  };
+
+  // Handle OPTIONS request for CORS
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: ''
+    };
+  }
+
+  try {
+    // Parse POST body
+    const body = JSON.parse(event.body || '{}');
+    const deviceIds = [...new Set(body.deviceIds || [])].map(String);
+
+    if (!deviceIds.length) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Missing deviceIds',
+          message: 'At least one device ID is required'
+        })
+      };
+    }
+
+    if (deviceIds.length > MAX_DEVICE_IDS) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Too many deviceIds',
+          message: `At most ${MAX_DEVICE_IDS} device IDs can be queried at once`
+        })
+      };
+    }
+
+    const sl1Client = new SL1Client();
+    const data = await sl1Client.query(QUERIES.GET_DEVICE_STATUS, {
+      limit: deviceIds.length,
+      search: {
+        id: {
+          in: deviceIds
+        }
+      }
+    });
+
+    // Devices SL1 no longer knows about are reported as unknown
+    const statuses = {};
+    deviceIds.forEach(id => {
+      statuses[id] = 'unknown';
+    });
+    (data.devices?.edges || []).forEach(edge => {
+      statuses[edge.node.id] = normalizeStatus(edge.node.state);
+    });
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        statuses,
+        timestamp: new Date().toISOString()
+      })
+    };
+
+  } catch (error) {
+    console.error('Error fetching device status:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Failed to fetch device status',
+        message: error.message
+      })
+    };
+  }
+};
+
+// Helper functions
+function normalizeStatus(status) {
+  if (!status) return 'unknown';
+
+  const statusLower = status.toLowerCase();
+  if (statusLower.includes('online') || statusLower.includes('up') || statusLower.includes('healthy')) {
+    return 'online';
+  } else if (statusLower.includes('offline') || statusLower.includes('down')) {
+    return 'offline';
+  } else if (statusLower.includes('warning') || statusLower.includes('degraded')) {
+    return 'warning';
+  }
+  return 'unknown';
+}
@@ -0,0 +1,207 @@
+const https = require('https');
+const configLoader = require('./config-loader');
+
+class SL1Client {
+  constructor() {
+    this.config = null;
+  }
+
+  async initialize() {
+    if (!this.config) {
+      this.config = await configLoader.getSL1Config();
+      
+      if (!this.config.url || !this.config.username || !this.config.password) {
+        throw new Error('Missing SL1 configuration. Please ensure Parameter Store contains sl1-url, sl1-username, and sl1-password.');
+      }
+    }
+    return this.config;
+  }
+
+  async query(graphqlQuery, variables = {}) {
+    const config = await this.initialize();
+    
+    const auth = Buffer.from(`${config.username}:${config.password}`).toString('base64');
+    
+    const requestBody = JSON.stringify({
+      query: graphqlQuery,
+      variables
+    });
+
+    const url = new URL(config.url);
+    
+    return new Promise((resolve, reject) => {
+      const options = {
+        hostname: url.hostname,
+        port: url.port || 443,
+        path: url.pathname,
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(requestBody),
+          'Authorization': `Basic ${auth}`
+        },
+        rejectUnauthorized: false // For self-signed certificates - configure properly in production
+      };
+
+      const req = https.request(options, (res) => {
+        let data = '';
+
+        res.on('data', (chunk) => {
+          data += chunk;
+        });
+
+        res.on('end', () => {
+          try {
+            const result = JSON.parse(data);
+            
+            if (result.errors) {
+              console.error('GraphQL Errors:', JSON.stringify(result.errors, null, 2));
+              reject(new Error('GraphQL query failed: ' + JSON.stringify(result.errors)));
+            } else {
+              resolve(result.data);
+            }
+          } catch (error) {
+            reject(error);
+          }
+        });
+      });
+
+      req.on('error', (error) => {
+        console.error('Request error:', error);
+        reject(error);
+      });
+
+      req.write(requestBody);
+      req.end();
+    });
+  }
+}
+
+// GraphQL Queries
+const QUERIES = {
+  GET_DEVICES: `
+    query GetDevices($limit: Int!, $after: String) {
+      devices(first: $limit, after: $after) {
+        edges {
+          cursor
+          node {
+            id
+            name
+            ip
+            state
+            deviceClass {
+              id
+              class
+            }
+            organization {
+              id
+            }
+          }
+        }
+        pageInfo {
+          hasNextPage
+        }
+      }
+    }
+  `,
+  
+  GET_DEVICES_WITH_SEARCH: `
+    query GetDevicesWithSearch($limit: Int!, $after: String, $search: DeviceSearch!) {
+      devices(first: $limit, after: $after, search: $search) {
+        edges {
+          cursor
+          node {
+            id
+            name
+            ip
+            state
+            deviceClass {
+              id
+              class
+            }
+            organization {
+              id
+            }
+          }
+        }
+        pageInfo {
+          hasNextPage
+        }
+      }
+    }
+  `,
+  
+  GET_DEVICE_STATUS: `
+    query GetDeviceStatus($limit: Int!, $search: DeviceSearch!) {
+      devices(first: $limit, search: $search) {
+        edges {
+          node {
+            id
+            state
+          }
+        }
+      }
+    }
+  `,
+  
+  GET_DEVICE_RELATIONSHIPS: `
+    query GetDeviceRelationships($deviceIds: [ID!]) {
+      deviceRelationships(
+        filter: { 
+          OR: [
+            { parentDevice: { id: { in: $deviceIds } } },
+            { childDevice: { id: { in: $deviceIds } } }
+          ]
+        }
+        first: 1000
+      ) {
+        edges {
+          node {
+            id
+            parentDevice {
+              id
+              name
+              type
+              status
+            }
+            childDevice {
+              id
+              name
+              type
+              status
+            }
+          }
+        }
+      }
+    }
+  `,
+  
+  SEARCH_DEVICES: `
+    query SearchDevices($searchTerm: String!, $limit: Int!) {
+      devices(
+        search: { 
+          OR: [
+            { name: { contains: $searchTerm } },
+            { ip: { contains: $searchTerm } }
+          ]
+        }
+        first: $limit
+      ) {
+        edges {
+          node {
+            id
+            name
+            ip
+            type
+            status
+          }
+        }
+      }
+    }
+  `
+};
+
+module.exports = {
+  SL1Client,
+  QUERIES
+};
\ No newline at end of file
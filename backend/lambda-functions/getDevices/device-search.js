@@ -0,0 +1,217 @@
+// Translation of device filters into an SL1 DeviceSearch. The query tree comes from the
+// frontend search syntax (frontend/src/utils/deviceQuery.ts) and every term here mirrors
+// matchesDeviceQuery there. SL1 has no single-character match, so "?" is searched like "*"
+// and "a*b*c" only checks the start, the end and the middle parts. Under NOT such a term
+// would drop devices, so a negated approximate term matches everything instead - the search
+// can return extra devices but never drops a matching one. The device list re-checks each
+// page with the exact match and reads further pages until its own page is full.
+
+const QUERY_FIELDS = ['name', 'type', 'status', 'ip', 'org', 'id'];
+
+const STATUSES = ['online', 'offline', 'warning', 'unknown'];
+
+// SL1 state keywords behind each normalized status - kept in step with normalizeStatus
+const STATUS_KEYWORDS = {
+  online: ['online', 'up', 'healthy'],
+  offline: ['offline', 'down'],
+  warning: ['warning', 'degraded']
+};
+
+// Never true - for status patterns that no status matches and negated approximate terms
+const MATCH_NOTHING = { NOT: { name: { contains: '' } } };
+
+function normalizeStatus(status) {
+  if (!status) return 'unknown';
+
+  const statusLower = status.toLowerCase();
+  if (statusLower.includes('online') || statusLower.includes('up') || statusLower.includes('healthy')) {
+    return 'online';
+  } else if (statusLower.includes('offline') || statusLower.includes('down')) {
+    return 'offline';
+  } else if (statusLower.includes('warning') || statusLower.includes('degraded')) {
+    return 'warning';
+  }
+  return 'unknown';
+}
+
+// DeviceSearch for the GraphQL query, or null when nothing is filtered
+function buildDeviceSearch({ search, type, status, organization, query }) {
+  const conditions = [];
+  if (search) {
+    conditions.push({ name: { contains: search } });
+  }
+  if (type) {
+    conditions.push({ deviceClass: { class: { eq: type } } });
+  }
+  if (status) {
+    conditions.push(buildStatusSearch(status));
+  }
+  if (organization) {
+    conditions.push({ organization: { id: { eq: organization } } });
+  }
+  if (query) {
+    conditions.push(buildQuerySearch(query));
+  }
+
+  if (conditions.length === 0) return null;
+  return conditions.length === 1 ? conditions[0] : { AND: conditions };
+}
+
+// A status name or a wildcard pattern over the status names, e.g. "off*"
+function buildStatusSearch(value) {
+  const statuses = /[*?]/.test(value)
+    ? STATUSES.filter(status => wildcardToRegExp(value).test(status))
+    : STATUSES.filter(status => status === value.toLowerCase());
+  if (statuses.length === 0) return MATCH_NOTHING;
+  return statuses.length === 1
+    ? buildStateSearch(statuses[0])
+    : { OR: statuses.map(buildStateSearch) };
+}
+
+// normalizeStatus checks the keywords in order, so each status also excludes the ones before it
+function buildStateSearch(status) {
+  const claimedBy = keywords => ({ OR: keywords.map(keyword => ({ state: { contains: keyword } })) });
+  const earlier = Object.keys(STATUS_KEYWORDS);
+  const index = earlier.indexOf(status);
+  const excluded = (index === -1 ? earlier : earlier.slice(0, index))
+    .map(name => ({ NOT: claimedBy(STATUS_KEYWORDS[name]) }));
+
+  // Unknown is every state the other statuses don't claim
+  if (index === -1) return { AND: excluded };
+  return excluded.length === 0
+    ? claimedBy(STATUS_KEYWORDS[status])
+    : { AND: [claimedBy(STATUS_KEYWORDS[status]), ...excluded] };
+}
+
+function validateQuery(node, depth = 0) {
+  if (depth > 20) throw new Error('Query is nested too deeply');
+  if (!node || typeof node !== 'object') throw new Error('Query must be an object');
+
+  if (node.op === 'and' || node.op === 'or') {
+    if (!Array.isArray(node.operands) || node.operands.length === 0) {
+      throw new Error(`"${node.op}" needs at least one operand`);
+    }
+    node.operands.forEach(operand => validateQuery(operand, depth + 1));
+  } else if (node.op === 'not') {
+    validateQuery(node.operand, depth + 1);
+  } else if (node.op === 'term') {
+    if (!QUERY_FIELDS.includes(node.field)) throw new Error(`Unknown field "${node.field}"`);
+    if (typeof node.value !== 'string' || !node.value) throw new Error(`Missing value for "${node.field}"`);
+    if (node.field === 'status' && !/[*?]/.test(node.value) && !STATUSES.includes(node.value.toLowerCase())) {
+      throw new Error(`Unknown status "${node.value}" - use ${STATUSES.join(', ')}`);
+    }
+    if (node.field === 'ip' && node.value.includes('/') && !parseCidr(node.value)) {
+      throw new Error(`Invalid CIDR range "${node.value}"`);
+    }
+  } else {
+    throw new Error(`Unknown operator "${node.op}"`);
+  }
+}
+
+function buildQuerySearch(node, negated = false) {
+  switch (node.op) {
+    case 'and':
+      return { AND: node.operands.map(operand => buildQuerySearch(operand, negated)) };
+    case 'or':
+      return { OR: node.operands.map(operand => buildQuerySearch(operand, negated)) };
+    case 'not':
+      return { NOT: buildQuerySearch(node.operand, !negated) };
+    default:
+      if (negated && isApproximateTerm(node.field, node.value)) return MATCH_NOTHING;
+      return buildTermSearch(node.field, node.value);
+  }
+}
+
+// Terms whose search is broader than the frontend match - "?" anywhere, or more than one
+// literal part around the "*"s ("ab*ba" would also find "aba")
+function isApproximateTerm(field, value) {
+  if (field === 'status' || (field === 'ip' && value.includes('/'))) return false;
+  return value.includes('?') || value.split('*').filter(Boolean).length > 1;
+}
+
+function buildTermSearch(field, value) {
+  switch (field) {
+    case 'name':
+      return buildTextSearch(value, 'contains', condition => ({ name: condition }));
+    case 'type':
+      return buildTextSearch(value, 'contains', condition => ({ deviceClass: { class: condition } }));
+    case 'org':
+      // The organization filter passes IDs, so an exact ID matches as well as the name
+      return {
+        OR: [
+          buildTextSearch(value, 'contains', condition => ({ organization: { name: condition } })),
+          { organization: { id: { eq: value } } }
+        ]
+      };
+    case 'status':
+      return buildStatusSearch(value);
+    case 'id':
+      return buildTextSearch(value, 'eq', condition => ({ id: condition }));
+    case 'ip':
+      if (value.includes('/')) return buildCidrSearch(value);
+      return buildTextSearch(value, 'beginsWith', condition => ({ ip: condition }));
+  }
+}
+
+// Plain values use the field's default operator, wildcard patterns are anchored at both ends
+function buildTextSearch(value, plainOperator, toField) {
+  if (!/[*?]/.test(value)) return toField({ [plainOperator]: value });
+
+  const parts = value.split(/[*?]+/);
+  const conditions = [];
+  if (parts[0]) conditions.push({ beginsWith: parts[0] });
+  if (parts.length > 1 && parts[parts.length - 1]) conditions.push({ endsWith: parts[parts.length - 1] });
+  parts.slice(1, -1).filter(Boolean).forEach(part => conditions.push({ contains: part }));
+  if (conditions.length === 0) return toField({ contains: '' });
+  return conditions.length === 1 ? toField(conditions[0]) : { AND: conditions.map(toField) };
+}
+
+// Same pattern syntax as the frontend - anchored and case-insensitive
+function wildcardToRegExp(pattern) {
+  const source = pattern
+    .split('')
+    .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+// CIDR ranges become IP prefixes - one per value of the partially masked octet
+function buildCidrSearch(value) {
+  const { network, bits } = parseCidr(value);
+  if (bits === 0) return { ip: { contains: '' } };
+
+  const octets = [network >>> 24, (network >>> 16) & 255, (network >>> 8) & 255, network & 255];
+  const fullOctets = Math.floor(bits / 8);
+  const spareBits = bits % 8;
+  if (spareBits === 0) {
+    const prefix = octets.slice(0, fullOctets).join('.');
+    return { ip: fullOctets === 4 ? { eq: prefix } : { beginsWith: `${prefix}.` } };
+  }
+
+  const fixed = octets.slice(0, fullOctets);
+  const first = octets[fullOctets];
+  const count = 1 << (8 - spareBits);
+  const prefixes = Array.from({ length: count }, (_, i) => {
+    const prefix = [...fixed, first + i].join('.');
+    return fullOctets === 3 ? { ip: { eq: prefix } } : { ip: { beginsWith: `${prefix}.` } };
+  });
+  return prefixes.length === 1 ? prefixes[0] : { OR: prefixes };
+}
+
+function parseCidr(value) {
+  const match = String(value).match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})\/(\d{1,2})$/);
+  if (!match) return null;
+  const octets = match.slice(1, 5).map(Number);
+  const bits = Number(match[5]);
+  if (octets.some(octet => octet > 255) || bits > 32) return null;
+  const address = octets.reduce((total, octet) => total * 256 + octet, 0);
+  const mask = bits === 0 ? 0 : (0xffffffff << (32 - bits)) >>> 0;
+  return { network: (address & mask) >>> 0, bits };
+}
+
+module.exports = {
+  STATUSES,
+  normalizeStatus,
+  buildDeviceSearch,
+  validateQuery
+};
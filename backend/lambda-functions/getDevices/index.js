@@ -1,9 +1,15 @@
+const crypto = require('crypto');
 const { SL1Client, QUERIES } = require('./sl1-client');
+const { STATUSES, normalizeStatus, buildDeviceSearch, validateQuery } = require('./device-search');
 const AWS = require('aws-sdk');
 
 const dynamodb = new AWS.DynamoDB.DocumentClient();
 const CACHE_TABLE = process.env.CACHE_TABLE || 'sl1-topology-cache';
 const CACHE_TTL = 900; // 15 minutes
+// Filter values cover the whole inventory and change rarely
+const FILTERS_CACHE_KEY = 'devices:filters';
+const FILTERS_CACHE_TTL = 3600; // 1 hour
+const FILTERS_BATCH_SIZE = 1000;
 
 exports.handler = async (event) => {
   const headers = {
@@ -28,11 +34,31 @@ exports.handler = async (event) => {
     const search = params.search || '';
     const type = params.type || null;
     const status = params.status || null;
+    const organization = params.organization || null;
     const limit = parseInt(params.limit) || 50;
     const cursor = params.cursor || null;
     
-    // Create cache key
-    const cacheKey = `devices:${search}:${type}:${status}:${limit}:${cursor || 'start'}`;
+    // Structured query tree from the frontend search syntax (utils/deviceQuery.ts)
+    let query = null;
+    if (params.query) {
+      try {
+        query = JSON.parse(params.query);
+        validateQuery(query);
+      } catch (error) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({
+            error: 'Invalid query',
+            message: error.message
+          })
+        };
+      }
+    }
+    
+    // Create cache key - queries are hashed so long ones stay within DynamoDB's 2048-byte key limit
+    const queryHash = query ? crypto.createHash('sha256').update(JSON.stringify(query)).digest('hex') : '';
+    const cacheKey = `devices:${search}:${type}:${status}:${organization}:${queryHash}:${limit}:${cursor || 'start'}`;
     
     // Check cache
     const cachedData = await checkCache(cacheKey);
@@ -56,39 +82,31 @@ exports.handler = async (event) => {
     
     let queryToUse;
     
-    if (search && search.trim()) {
-      // Use search query when search term is provided
-      variables.search = {
-        name: {
-          contains: search.trim()
-        }
-      };
+    // Every filter is applied by SL1 so each page comes back full and the cursor stays valid
+    const deviceSearch = buildDeviceSearch({ search: search.trim(), type, status, organization, query });
+    if (deviceSearch) {
+      variables.search = deviceSearch;
       queryToUse = QUERIES.GET_DEVICES_WITH_SEARCH;
     } else {
       // Use regular query without search parameter
       queryToUse = QUERIES.GET_DEVICES;
     }
     
-    const data = await sl1Client.query(queryToUse, variables);
+    const [data, availableFilters] = await Promise.all([
+      sl1Client.query(queryToUse, variables),
+      getAvailableFilters(sl1Client)
+    ]);
     
-    // Process and filter results
-    let devices = data.devices.edges.map(edge => ({
+    // Process results
+    const devices = data.devices.edges.map(edge => ({
       id: edge.node.id,
       name: edge.node.name,
       ip: edge.node.ip || 'N/A',
       type: edge.node.deviceClass?.class || 'Unknown',
       status: normalizeStatus(edge.node.state),
-      organization: edge.node.organization?.id || '0'
+      organization: toOrganization(edge.node.organization)
     }));
     
-    // Apply additional filters if provided
-    if (type) {
-      devices = devices.filter(d => d.type.toLowerCase() === type.toLowerCase());
-    }
-    if (status) {
-      devices = devices.filter(d => d.status.toLowerCase() === status.toLowerCase());
-    }
-    
     // Get last cursor for next page
     const lastCursor = data.devices.edges.length > 0 
       ? data.devices.edges[data.devices.edges.length - 1].cursor 
@@ -103,8 +121,9 @@ exports.handler = async (event) => {
         nextCursor: lastCursor
       },
       filters: {
-        availableTypes: getUniqueTypes(devices),
-        availableStatuses: ['online', 'offline', 'warning', 'unknown']
+        availableTypes: availableFilters.types,
+        availableStatuses: STATUSES,
+        availableOrganizations: availableFilters.organizations
       }
     };
     
@@ -131,23 +150,26 @@ exports.handler = async (event) => {
 };
 
 // Helper functions
-function normalizeStatus(status) {
-  if (!status) return 'unknown';
-  
-  const statusLower = status.toLowerCase();
-  if (statusLower.includes('online') || statusLower.includes('up') || statusLower.includes('healthy')) {
-    return 'online';
-  } else if (statusLower.includes('offline') || statusLower.includes('down')) {
-    return 'offline';
-  } else if (statusLower.includes('warning') || statusLower.includes('degraded')) {
-    return 'warning';
-  }
-  return 'unknown';
+function toOrganization(organization) {
+  if (!organization?.id) return null;
+  return { id: organization.id, name: organization.name || organization.id };
 }
 
-function getUniqueTypes(devices) {
-  const types = [...new Set(devices.map(d => d.type))];
-  return types.filter(t => t !== 'Unknown').sort();
+// Device classes and organizations across the inventory, not just the current page
+async function getAvailableFilters(sl1Client) {
+  const cached = await checkCache(FILTERS_CACHE_KEY);
+  if (cached) return cached;
+
+  const data = await sl1Client.query(QUERIES.GET_DEVICE_FILTERS, { first: FILTERS_BATCH_SIZE });
+  const types = [...new Set((data.deviceClasses?.edges || []).map(edge => edge.node.class).filter(Boolean))].sort();
+  const organizations = (data.organizations?.edges || [])
+    .map(edge => toOrganization(edge.node))
+    .filter(Boolean)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const filters = { types, organizations };
+  await cacheResult(FILTERS_CACHE_KEY, filters, FILTERS_CACHE_TTL);
+  return filters;
 }
 
 async function checkCache(key) {
@@ -166,14 +188,14 @@ async function checkCache(key) {
   return null;
 }
 
-async function cacheResult(key, data) {
+async function cacheResult(key, data, ttl = CACHE_TTL) {
   try {
     await dynamodb.put({
       TableName: CACHE_TABLE,
       Item: {
         cacheKey: key,
         data,
-        ttl: Math.floor(Date.now() / 1000) + CACHE_TTL
+        ttl: Math.floor(Date.now() / 1000) + ttl
       }
     }).promise();
   } catch (error) {
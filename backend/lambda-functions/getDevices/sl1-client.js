@@ -95,6 +95,7 @@ const QUERIES = {
             }
             organization {
               id
+              name
             }
           }
         }
@@ -121,6 +122,7 @@ const QUERIES = {
             }
             organization {
               id
+              name
             }
           }
         }
@@ -131,6 +133,27 @@ const QUERIES = {
     }
   `,
   
+  GET_DEVICE_FILTERS: `
+    query GetDeviceFilters($first: Int!) {
+      deviceClasses(first: $first) {
+        edges {
+          node {
+            id
+            class
+          }
+        }
+      }
+      organizations(first: $first) {
+        edges {
+          node {
+            id
+            name
+          }
+        }
+      }
+    }
+  `,
+  
   GET_DEVICE_RELATIONSHIPS: `
     query GetDeviceRelationships($deviceIds: [ID!]) {
       deviceRelationships(
@@ -0,0 +1,116 @@
+const { SL1Client, QUERIES } = require('./sl1-client');
+
+// Events are refreshed with the canvas status poll, so results are never cached
+const MAX_DEVICE_IDS = 5000;
+const MAX_EVENTS = 10000;
+
+// SL1 numeric severities - 0 (healthy) means the event has cleared and is skipped
+const SEVERITIES = {
+  1: 'notice',
+  2: 'minor',
+  3: 'major',
+  4: 'critical'
+};
+
+exports.handler = async (event) => {
+  const headers = {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': process.env.CORS_ORIGIN || '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'OPTIONS,POST'
+  };
+
+  // Handle OPTIONS request for CORS
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: ''
+    };
+  }
+
+  try {
+    // Parse POST body
+    const body = JSON.parse(event.body || '{}');
+    const deviceIds = [...new Set(body.deviceIds || [])].map(String);
+
+    if (!deviceIds.length) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Missing deviceIds',
+          message: 'At least one device ID is required'
+        })
+      };
+    }
+
+    if (deviceIds.length > MAX_DEVICE_IDS) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Too many deviceIds',
+          message: `At most ${MAX_DEVICE_IDS} device IDs can be queried at once`
+        })
+      };
+    }
+
+    const sl1Client = new SL1Client();
+    const data = await sl1Client.query(QUERIES.GET_OPEN_EVENTS, {
+      limit: MAX_EVENTS,
+      search: {
+        entity: {
+          id: {
+            in: deviceIds
+          }
+        },
+        severity: {
+          gt: 0
+        }
+      }
+    });
+
+    const events = (data.events?.edges || [])
+      .map(edge => edge.node)
+      .filter(node => node.entity?.id && SEVERITIES[node.severity])
+      .map(node => ({
+        id: String(node.id),
+        deviceId: String(node.entity.id),
+        severity: SEVERITIES[node.severity],
+        message: node.message || '',
+        firstSeen: toIsoDate(node.firstOccurrence),
+        lastSeen: toIsoDate(node.lastOccurrence || node.firstOccurrence),
+        count: node.count || 1
+      }));
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        events,
+        timestamp: new Date().toISOString()
+      })
+    };
+
+  } catch (error) {
+    console.error('Error fetching events:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Failed to fetch events',
+        message: error.message
+      })
+    };
+  }
+};
+
+// Helper functions
+
+// SL1 returns event dates as epoch seconds
+function toIsoDate(value) {
+  const seconds = Number(value);
+  const date = Number.isFinite(seconds) && seconds > 0 ? new Date(seconds * 1000) : new Date(value);
+  return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
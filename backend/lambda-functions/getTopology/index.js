@@ -135,10 +135,11 @@ exports.handler = async (event) => {
       // Merge results into global collections (avoid duplicates)
       deviceVisitedNodes.forEach(nodeId => globalVisitedNodes.add(nodeId));
       deviceDiscoveredRelationships.forEach(rel => {
-        // Check for duplicate relationships by comparing parent-child pairs
+        // Check for duplicate relationships - a pair may be linked by several relationship types
         const isDuplicate = allDiscoveredRelationships.some(existingRel => 
           existingRel.node.parentDevice?.id === rel.node.parentDevice?.id &&
-          existingRel.node.childDevice?.id === rel.node.childDevice?.id
+          existingRel.node.childDevice?.id === rel.node.childDevice?.id &&
+          existingRel.node.type === rel.node.type
         );
         if (!isDuplicate) {
           allDiscoveredRelationships.push(rel);
@@ -178,7 +179,8 @@ exports.handler = async (event) => {
             label: device.name,
             type: device.deviceClass?.class || 'Unknown',
             status: normalizeStatus(device.state),
-            ip: device.ip || 'N/A'
+            ip: device.ip || 'N/A',
+            organization: toOrganization(device.organization)
           });
         }
       });
@@ -196,7 +198,8 @@ exports.handler = async (event) => {
             label: relationship.parentDevice.name,
             type: 'Unknown', // Will be set properly if it's one of our queried devices
             status: normalizeStatus(relationship.parentDevice.state),
-            ip: relationship.parentDevice.ip || 'N/A'
+            ip: relationship.parentDevice.ip || 'N/A',
+            organization: toOrganization(relationship.parentDevice.organization)
           });
         }
 
@@ -207,14 +210,18 @@ exports.handler = async (event) => {
             label: relationship.childDevice.name,
             type: 'Unknown', // Will be set properly if it's one of our queried devices
             status: normalizeStatus(relationship.childDevice.state),
-            ip: relationship.childDevice.ip || 'N/A'
+            ip: relationship.childDevice.ip || 'N/A',
+            organization: toOrganization(relationship.childDevice.organization)
           });
         }
 
         // Add edge
         edges.push({
           source: relationship.parentDevice.id,
-          target: relationship.childDevice.id
+          target: relationship.childDevice.id,
+          type: normalizeRelationshipType(relationship.type),
+          relationshipId: relationship.id,
+          typeName: relationship.type || undefined
         });
       }
     });
@@ -378,11 +385,29 @@ function normalizeStatus(status) {
   return 'unknown';
 }
 
+// Map SL1 relationship type names onto the classes the canvas styles and filters
+function normalizeRelationshipType(type) {
+  if (!type) return 'other';
+
+  const typeLower = type.toLowerCase();
+  if (typeLower.includes('cdp')) return 'cdp';
+  if (typeLower.includes('lldp')) return 'lldp';
+  if (typeLower.includes('layer2') || typeLower.includes('layer 2') || /\bl2\b/.test(typeLower)) return 'layer2';
+  if (typeLower.includes('virtual') || typeLower.includes('vmware') || typeLower.includes('hypervisor')) return 'virtualization';
+  if (typeLower.includes('component') || typeLower.includes('dcm')) return 'component';
+  return 'other';
+}
+
 function getUniqueTypes(devices) {
   const types = [...new Set(devices.map(d => d.type))];
   return types.filter(t => t !== 'Unknown').sort();
 }
 
+function toOrganization(organization) {
+  if (!organization?.id) return null;
+  return { id: organization.id, name: organization.name || organization.id };
+}
+
 async function checkCache(key) {
   try {
     const result = await dynamodb.get({
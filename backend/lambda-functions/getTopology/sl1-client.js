@@ -118,6 +118,7 @@ const QUERIES = {
             }
             organization {
               id
+              name
             }
           }
         }
@@ -131,17 +132,26 @@ const QUERIES = {
         edges {
           node {
             id
+            type
             parentDevice {
               id
               name
               ip
               state
+              organization {
+                id
+                name
+              }
             }
             childDevice {
               id
               name
               ip
               state
+              organization {
+                id
+                name
+              }
             }
           }
         }
@@ -0,0 +1,264 @@
+import type { Device, DeviceDetails, DeviceEvent, RelationshipType, TopologyEdge } from '../src/services/api';
+
+// Fixture topologies for the mock SL1 backend. Every fixture is generated
+// deterministically so the same device IDs come back on every restart.
+
+// SL1 attributes only returned by the device details endpoint
+export type FixtureAttributes = Pick<DeviceDetails, 'state' | 'deviceClass' | 'collector' | 'lastDiscovered'>;
+
+export interface Fixture {
+  devices: Device[];
+  relationships: TopologyEdge[]; // source = parent, target = child
+  attributes: { [deviceId: string]: FixtureAttributes };
+}
+
+type FixtureBuilder = () => Fixture;
+
+const STATUSES: Device['status'][] = ['online', 'online', 'online', 'online', 'warning', 'offline', 'unknown'];
+// Raw SL1 state strings that normalize back to each status
+const SL1_STATES: { [status in Device['status']]: string } = {
+  online: 'Healthy',
+  warning: 'Warning',
+  offline: 'Down',
+  unknown: 'Unknown',
+};
+// SL1 relationship type names reported for each relationship class
+const SL1_RELATIONSHIP_TYPES: { [type in RelationshipType]: string } = {
+  layer2: 'Layer 2',
+  cdp: 'CDP',
+  lldp: 'LLDP',
+  virtualization: 'VMware Virtualization',
+  component: 'Component (DCM)',
+  other: 'IP',
+};
+// Discovery dates are spread over the 30 days before this instant
+const DISCOVERY_EPOCH = Date.parse('2026-01-01T00:00:00Z');
+
+// Small linear congruential generator - stable statuses/IPs without Math.random
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+};
+
+class FixtureWriter {
+  private devices: Device[] = [];
+  private relationships: TopologyEdge[] = [];
+  private attributes: Fixture['attributes'] = {};
+  private random: () => number;
+  private nextId: number;
+  private organization: string;
+
+  constructor(seed: number, firstId: number, organization: string) {
+    this.random = createRandom(seed);
+    this.nextId = firstId;
+    this.organization = organization;
+  }
+
+  // Devices created after this call belong to another tenant
+  useOrganization(organization: string) {
+    this.organization = organization;
+  }
+
+  device(name: string, type: string, subnet: string, status?: Device['status']): string {
+    const id = String(this.nextId++);
+    const host = (this.devices.length % 253) + 1;
+    this.devices.push({
+      id,
+      name,
+      ip: `${subnet}.${host}`,
+      type,
+      status: status || STATUSES[Math.floor(this.random() * STATUSES.length)],
+      organization: { id: `org-${this.organization.toLowerCase().replace(/\s+/g, '-')}`, name: this.organization },
+    });
+    // One collector group per /16, discovered some time in the last month
+    const collector = subnet.split('.').slice(0, 2).join('.');
+    this.attributes[id] = {
+      state: SL1_STATES[this.devices[this.devices.length - 1].status],
+      deviceClass: type,
+      collector: { id: `cug-${collector}`, name: `CUG ${collector}.0.0/16` },
+      // Derived from the ID so it does not shift the random status sequence
+      lastDiscovered: new Date(DISCOVERY_EPOCH - ((Number(id) * 7919) % (30 * 86400)) * 1000).toISOString(),
+    };
+    return id;
+  }
+
+  link(parentId: string, childId: string, type: RelationshipType = 'layer2') {
+    this.relationships.push({
+      source: parentId,
+      target: childId,
+      type,
+      relationshipId: `rel-${parentId}-${childId}-${type}`,
+      typeName: SL1_RELATIONSHIP_TYPES[type],
+    });
+  }
+
+  pick<T>(items: T[]): T {
+    return items[Math.floor(this.random() * items.length)];
+  }
+
+  build(): Fixture {
+    return { devices: this.devices, relationships: this.relationships, attributes: this.attributes };
+  }
+}
+
+// A small campus network: core → distribution → access → endpoints, with a
+// redundant distribution loop and a few devices that have no relationships
+const buildCampus: FixtureBuilder = () => {
+  const writer = new FixtureWriter(7, 1000, 'Campus IT');
+  const core = writer.device('core-rtr-01', 'Cisco Router', '10.0.0', 'online');
+  const firewall = writer.device('edge-fw-01', 'Palo Alto Firewall', '10.0.0', 'online');
+  writer.link(firewall, core, 'cdp');
+
+  // Building B is leased to a second tenant that shares the campus core
+  const distSwitches = ['a', 'b'].map((building, b) => {
+    writer.useOrganization(building === 'a' ? 'Campus IT' : 'Research Group');
+    const dist = writer.device(`dist-sw-${building}`, 'Cisco Switch', `10.${b + 1}.0`, 'online');
+    writer.link(core, dist, 'cdp');
+
+    for (let a = 1; a <= 3; a++) {
+      const access = writer.device(`access-sw-${building}${a}`, 'Cisco Switch', `10.${b + 1}.${a}`);
+      writer.link(dist, access, 'lldp');
+
+      for (let e = 1; e <= 4; e++) {
+        const type = writer.pick(['Linux Server', 'Windows Server', 'VMware Host', 'Printer']);
+        const host = writer.device(`${building}${a}-host-${e}`, type, `10.${b + 1}.${a}`);
+        writer.link(access, host);
+        // The first host is also an LLDP neighbour - two relationship types between one pair
+        if (e === 1) writer.link(access, host, 'lldp');
+      }
+    }
+    return dist;
+  });
+
+  // Distribution switches uplink to each other as well as to the core
+  writer.link(distSwitches[0], distSwitches[1]);
+  writer.link(distSwitches[1], distSwitches[0]);
+
+  writer.useOrganization('Campus IT');
+
+  writer.device('lab-ap-01', 'Wireless AP', '10.9.0', 'warning');
+  writer.device('spare-sw-01', 'Cisco Switch', '10.9.0', 'unknown');
+  writer.device('old-printer', 'Printer', '10.9.0', 'offline');
+  return writer.build();
+};
+
+// Relationship loops of different lengths, including self-contained rings with no root
+const buildCycles: FixtureBuilder = () => {
+  const writer = new FixtureWriter(11, 2000, 'Lab Network');
+  const root = writer.device('cycle-root', 'Cisco Router', '172.16.0', 'online');
+
+  [2, 3, 5, 8].forEach((size, r) => {
+    const ring = Array.from({ length: size }, (_, i) =>
+      writer.device(`ring${size}-node-${i + 1}`, 'Cisco Switch', `172.16.${r + 1}`)
+    );
+    ring.forEach((id, i) => writer.link(id, ring[(i + 1) % size], 'lldp'));
+    // Even-sized rings hang off the root; odd-sized rings are unreachable from any root
+    if (size % 2 === 0) {
+      writer.link(root, ring[0]);
+    }
+  });
+
+  // Mutual parents: two servers each listed as the other's parent
+  const left = writer.device('ha-pair-left', 'Linux Server', '172.16.9');
+  const right = writer.device('ha-pair-right', 'Linux Server', '172.16.9');
+  writer.link(left, right, 'component');
+  writer.link(right, left, 'component');
+  writer.link(root, left);
+  return writer.build();
+};
+
+// Mostly unrelated devices - exercises canvases with no edges
+const buildOrphans: FixtureBuilder = () => {
+  const writer = new FixtureWriter(13, 3000, 'Branch Offices');
+  for (let i = 1; i <= 40; i++) {
+    const type = writer.pick(['Linux Server', 'Windows Server', 'Printer', 'Wireless AP', 'UPS']);
+    writer.device(`orphan-${String(i).padStart(2, '0')}`, type, `192.168.${Math.ceil(i / 10)}`);
+  }
+  const hub = writer.device('lonely-hub', 'Cisco Switch', '192.168.9', 'online');
+  writer.link(hub, writer.device('lonely-hub-child', 'Linux Server', '192.168.9'));
+  return writer.build();
+};
+
+// 5,000 devices: a wide tree with cross-links between branches for stress testing
+const buildLarge: FixtureBuilder = () => {
+  const writer = new FixtureWriter(17, 10000, 'Data Center');
+  const total = 5000;
+  const ids = [writer.device('dc-core-01', 'Cisco Router', '10.100.0', 'online')];
+
+  for (let i = 1; i < total; i++) {
+    // Parents are always earlier devices so the tree stays connected
+    const parent = ids[Math.floor((i - 1) / 6)];
+    const type = i < 50 ? 'Cisco Switch' : writer.pick(['Cisco Switch', 'Linux Server', 'Windows Server', 'VMware Host']);
+    const id = writer.device(`dc-dev-${String(i).padStart(4, '0')}`, type, `10.100.${Math.floor(i / 253)}`);
+    writer.link(parent, id);
+    ids.push(id);
+  }
+
+  for (let i = 0; i < 200; i++) {
+    const parent = writer.pick(ids);
+    const child = writer.pick(ids);
+    if (parent !== child) {
+      // Cross-links stand in for the non-network relationship classes
+      writer.link(parent, child, i % 2 === 0 ? 'virtualization' : 'component');
+    }
+  }
+  return writer.build();
+};
+
+export const FIXTURES: { [name: string]: FixtureBuilder } = {
+  campus: buildCampus,
+  cycles: buildCycles,
+  orphans: buildOrphans,
+  large: buildLarge,
+};
+
+// All fixtures merged, so every scenario can be searched from one device list
+export const buildAllFixtures = (): Fixture => {
+  const fixtures = Object.values(FIXTURES).map(build => build());
+  return {
+    devices: fixtures.flatMap(f => f.devices),
+    relationships: fixtures.flatMap(f => f.relationships),
+    attributes: Object.assign({}, ...fixtures.map(f => f.attributes)),
+  };
+};
+
+// Open events derived from device status: offline devices raise a critical availability
+// event, warning devices a major/minor one, and every 7th device carries a notice
+const EVENT_MESSAGES: { [severity in DeviceEvent['severity']]: string[] } = {
+  critical: ['Device failed availability check', 'Physical interface down'],
+  major: ['CPU utilization exceeded 95% threshold', 'Interface error rate above threshold'],
+  minor: ['Memory utilization exceeded 80% threshold', 'File system /var above 85% full'],
+  notice: ['Configuration change detected', 'SNMP credential rotated'],
+};
+
+export const buildEvents = (fixture: Fixture): DeviceEvent[] => {
+  const events: DeviceEvent[] = [];
+  const addEvent = (device: Device, severity: DeviceEvent['severity'], variant: number) => {
+    const numericId = Number(device.id);
+    const lastSeen = DISCOVERY_EPOCH - (numericId % 48) * 3600 * 1000;
+    events.push({
+      id: `evt-${device.id}-${events.length}`,
+      deviceId: device.id,
+      severity,
+      message: EVENT_MESSAGES[severity][variant % EVENT_MESSAGES[severity].length],
+      firstSeen: new Date(lastSeen - (numericId % 7) * 86400 * 1000).toISOString(),
+      lastSeen: new Date(lastSeen).toISOString(),
+      count: (numericId % 5) + 1,
+    });
+  };
+
+  fixture.devices.forEach(device => {
+    const numericId = Number(device.id);
+    if (device.status === 'offline') {
+      addEvent(device, 'critical', numericId);
+      if (numericId % 2 === 0) addEvent(device, 'major', numericId);
+    } else if (device.status === 'warning') {
+      addEvent(device, numericId % 3 === 0 ? 'major' : 'minor', numericId);
+    }
+    if (numericId % 7 === 0) addEvent(device, 'notice', numericId);
+  });
+  return events;
+};
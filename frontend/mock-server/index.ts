@@ -0,0 +1,323 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import type {
+  Device,
+  DeviceDetails,
+  EventsResponse,
+  DevicesResponse,
+  DeviceStatusResponse,
+  TopologyEdge,
+  TopologyNode,
+  TopologyResponse,
+} from '../src/services/api';
+import { DeviceQuery, matchesDeviceQuery } from '../src/utils/deviceQuery';
+import { buildAllFixtures, buildEvents, Fixture, FIXTURES } from './fixtures';
+
+// Local stand-in for the API Gateway + Lambda backend, serving fixture topologies
+// with the same response shapes as the real endpoints.
+//   MOCK_PORT     - port to listen on (default 3001, matches api.fallbackUrl)
+//   MOCK_FIXTURE  - campus | cycles | orphans | large | all (default all)
+
+type Direction = 'parents' | 'children' | 'both';
+
+const PORT = parseInt(process.env.MOCK_PORT || '') || 3001;
+const FIXTURE_NAME = process.env.MOCK_FIXTURE || 'all';
+
+const loadFixture = (name: string): Fixture => {
+  if (name === 'all') return buildAllFixtures();
+  const build = FIXTURES[name];
+  if (!build) {
+    throw new Error(`Unknown fixture "${name}" - expected one of: all, ${Object.keys(FIXTURES).join(', ')}`);
+  }
+  return build();
+};
+
+const fixture = loadFixture(FIXTURE_NAME);
+const devicesById = new Map(fixture.devices.map(device => [device.id, device]));
+const childrenById = new Map<string, string[]>();
+const parentsById = new Map<string, string[]>();
+// A parent/child pair can be linked by several relationship types
+const relationshipsByPair = new Map<string, TopologyEdge[]>();
+fixture.relationships.forEach(relationship => {
+  const { source, target } = relationship;
+  const key = `${source}-${target}`;
+  if (relationshipsByPair.has(key)) {
+    relationshipsByPair.get(key)!.push(relationship);
+    return;
+  }
+  relationshipsByPair.set(key, [relationship]);
+  if (!childrenById.has(source)) childrenById.set(source, []);
+  if (!parentsById.has(target)) parentsById.set(target, []);
+  childrenById.get(source)!.push(target);
+  parentsById.get(target)!.push(source);
+});
+
+const events = buildEvents(fixture);
+
+const availableTypes = [...new Set(fixture.devices.map(d => d.type))].sort();
+const availableOrganizations = [...new Map(fixture.devices.map(d => [d.organization!.id, d.organization!])).values()]
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+const headers = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'OPTIONS,GET,POST',
+};
+
+const send = (res: ServerResponse, statusCode: number, body?: unknown) => {
+  res.writeHead(statusCode, headers);
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(raw || '{}'));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+
+const toNode = (device: Device): TopologyNode => ({
+  id: device.id,
+  label: device.name,
+  type: device.type,
+  status: device.status,
+  ip: device.ip,
+  organization: device.organization,
+});
+
+// GET /devices - name filter, type/status/organization filters, structured query
+// (matched with the frontend's own query code) and offset-based cursor paging
+const handleGetDevices = (res: ServerResponse, params: URLSearchParams) => {
+  let query: DeviceQuery | null = null;
+  try {
+    query = JSON.parse(params.get('query') || 'null');
+  } catch (error) {
+    send(res, 400, { error: 'Invalid query', message: (error as Error).message });
+    return;
+  }
+
+  const search = (params.get('search') || '').trim().toLowerCase();
+  const type = params.get('type');
+  const status = params.get('status');
+  const organization = params.get('organization');
+  const limit = parseInt(params.get('limit') || '') || 50;
+  const offset = parseInt(params.get('cursor') || '') || 0;
+
+  const matches = fixture.devices.filter(device =>
+    (!search || device.name.toLowerCase().includes(search)) &&
+    (!type || device.type.toLowerCase() === type.toLowerCase()) &&
+    (!status || device.status === status.toLowerCase()) &&
+    (!organization || device.organization?.id === organization) &&
+    matchesDeviceQuery(query, device)
+  );
+  const page = matches.slice(offset, offset + limit);
+  const hasMore = offset + limit < matches.length;
+
+  const response: DevicesResponse = {
+    devices: page,
+    pagination: {
+      total: matches.length,
+      limit,
+      hasMore,
+      nextCursor: hasMore ? String(offset + limit) : undefined,
+    },
+    filters: {
+      availableTypes,
+      availableStatuses: ['online', 'offline', 'warning', 'unknown'],
+      availableOrganizations,
+    },
+  };
+  send(res, 200, response);
+};
+
+// GET /search - name or IP match, same 2-character minimum as the Lambda
+const handleSearch = (res: ServerResponse, params: URLSearchParams) => {
+  const searchTerm = params.get('search') || '';
+  const limit = parseInt(params.get('limit') || '') || 20;
+
+  if (searchTerm.length < 2) {
+    send(res, 400, { error: 'Search term must be at least 2 characters' });
+    return;
+  }
+
+  const term = searchTerm.toLowerCase();
+  const devices = fixture.devices
+    .filter(device => device.name.toLowerCase().includes(term) || device.ip.includes(term))
+    .slice(0, limit);
+  send(res, 200, { devices, searchTerm, resultCount: devices.length });
+};
+
+// POST /topology - per-device depth/direction traversal, like the getTopology Lambda
+const handleTopology = (res: ServerResponse, body: any) => {
+  const deviceIds: string[] = body.deviceIds || [];
+  const depth = Math.min(Math.max(body.depth || 1, 1), 5);
+  const direction: Direction = body.direction || 'both';
+  const deviceDirections: { [deviceId: string]: Direction } = body.deviceDirections || {};
+  const deviceDepths: { [deviceId: string]: number } = body.deviceDepths || {};
+
+  if (!deviceIds.length) {
+    send(res, 400, { error: 'Missing deviceIds', message: 'At least one device ID is required' });
+    return;
+  }
+
+  const nodeIds = new Set(deviceIds.filter(id => devicesById.has(id)));
+  const edgeKeys = new Set<string>();
+  const edges: TopologyEdge[] = [];
+  const addEdge = (source: string, target: string) => {
+    const key = `${source}-${target}`;
+    if (edgeKeys.has(key)) return;
+    edgeKeys.add(key);
+    edges.push(...(relationshipsByPair.get(key) || []));
+  };
+
+  deviceIds.forEach(deviceId => {
+    const maxDepth = deviceDepths[deviceId] || depth;
+    const deviceDirection = deviceDirections[deviceId] || direction;
+    const visited = new Set([deviceId]);
+    let frontier = [deviceId];
+
+    for (let level = 0; level < maxDepth && frontier.length > 0; level++) {
+      const next: string[] = [];
+      frontier.forEach(nodeId => {
+        if (deviceDirection !== 'parents') {
+          (childrenById.get(nodeId) || []).forEach(childId => {
+            addEdge(nodeId, childId);
+            if (!visited.has(childId)) {
+              visited.add(childId);
+              next.push(childId);
+            }
+          });
+        }
+        if (deviceDirection !== 'children') {
+          (parentsById.get(nodeId) || []).forEach(parentId => {
+            addEdge(parentId, nodeId);
+            if (!visited.has(parentId)) {
+              visited.add(parentId);
+              next.push(parentId);
+            }
+          });
+        }
+      });
+      frontier = next;
+    }
+    visited.forEach(id => nodeIds.add(id));
+  });
+
+  const nodes = Array.from(nodeIds)
+    .map(id => devicesById.get(id))
+    .filter((device): device is Device => !!device)
+    .map(toNode);
+
+  const response: TopologyResponse = {
+    topology: { nodes, edges },
+    stats: {
+      totalDevices: nodes.length,
+      totalRelationships: edges.length,
+      depth,
+      direction,
+    },
+  };
+  send(res, 200, response);
+};
+
+// POST /devices/status - current status for the live refresh poller
+const handleDeviceStatus = (res: ServerResponse, body: any) => {
+  const deviceIds: string[] = Array.isArray(body.deviceIds) ? body.deviceIds : [];
+  const response: DeviceStatusResponse = {
+    statuses: Object.fromEntries(deviceIds.map(id => [id, devicesById.get(id)?.status || 'unknown'])),
+    timestamp: new Date().toISOString(),
+  };
+  send(res, 200, response);
+};
+
+// POST /events - open events for the requested devices
+const handleEvents = (res: ServerResponse, body: any) => {
+  const deviceIds = new Set<string>(Array.isArray(body.deviceIds) ? body.deviceIds : []);
+  if (!deviceIds.size) {
+    send(res, 400, { error: 'Missing deviceIds', message: 'At least one device ID is required' });
+    return;
+  }
+  const response: EventsResponse = {
+    events: events.filter(event => deviceIds.has(event.deviceId)),
+    timestamp: new Date().toISOString(),
+  };
+  send(res, 200, response);
+};
+
+// GET /devices/:id - full record plus immediate parents and children
+const handleDeviceDetails = (res: ServerResponse, deviceId: string) => {
+  const device = devicesById.get(deviceId);
+  if (!device) {
+    send(res, 404, { error: 'Device not found', message: `SL1 has no device with ID ${deviceId}` });
+    return;
+  }
+
+  const toRelative = (id: string) => {
+    const relative = devicesById.get(id)!;
+    return { id, name: relative.name, ip: relative.ip, status: relative.status };
+  };
+  const response: DeviceDetails = {
+    ...device,
+    ...fixture.attributes[deviceId],
+    organization: device.organization || null,
+    parents: (parentsById.get(deviceId) || []).filter(id => id !== deviceId).map(toRelative),
+    children: (childrenById.get(deviceId) || []).filter(id => id !== deviceId).map(toRelative),
+    relationshipsIncomplete: false,
+  };
+  send(res, 200, response);
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  const route = `${req.method} ${url.pathname.replace(/\/+$/, '')}`;
+  console.log(route, url.search);
+
+  if (req.method === 'OPTIONS') {
+    send(res, 200);
+    return;
+  }
+
+  try {
+    switch (route) {
+      case 'GET /devices':
+        handleGetDevices(res, url.searchParams);
+        break;
+      case 'GET /search':
+        handleSearch(res, url.searchParams);
+        break;
+      case 'POST /topology':
+        handleTopology(res, await readJsonBody(req));
+        break;
+      case 'POST /devices/status':
+        handleDeviceStatus(res, await readJsonBody(req));
+        break;
+      case 'POST /events':
+        handleEvents(res, await readJsonBody(req));
+        break;
+      default: {
+        // GET /devices/:id is the only route with a path parameter
+        const detailsMatch = req.method === 'GET' && url.pathname.match(/^\/devices\/([^/]+)\/?$/);
+        if (detailsMatch) {
+          handleDeviceDetails(res, decodeURIComponent(detailsMatch[1]));
+        } else {
+          send(res, 404, { error: 'Not found', message: `No mock handler for ${route}` });
+        }
+      }
+    }
+  } catch (error) {
+    console.error('Mock server error:', error);
+    send(res, 500, { error: 'Mock server error', message: (error as Error).message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock SL1 backend on http://localhost:${PORT} - fixture "${FIXTURE_NAME}" ` +
+    `(${fixture.devices.length} devices, ${fixture.relationships.length} relationships)`);
+});
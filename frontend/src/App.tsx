@@ -2,12 +2,31 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Device, TopologyResponse, apiService } from './services/api';
 import { DeviceList } from './components/DeviceInventory/DeviceList';
 import { VisControlledTopology } from './components/TopologyCanvas/VisControlledTopology';
+import { SimpleVisNetworkTopologyRef } from './components/NetworkTopology/SimpleVisNetworkTopology';
+import { SavedViewsModal } from './components/SavedViews/SavedViewsModal';
 import { configService } from './services/config';
+import { CanvasLayoutState, SavedView, savedViewsService } from './services/savedViews';
+import { buildShareUrl, clearShareParams, copyToClipboard, parseShareUrl } from './utils/shareLink';
+import { parseTopologyFiles } from './utils/graphImport';
+import { readFileAsText } from './utils/download';
+import { getEdgeKey } from './utils/relationships';
 import { useTheme } from './hooks/useTheme';
+import { useUndoHistory } from './hooks/useUndoHistory';
 import { SimpleAuthProvider } from './contexts/SimpleAuthContext';
 import { SimpleProtectedRoute } from './components/Auth/SimpleProtectedRoute';
 import './App.css';
 
+// What an undo step restores - the inventory selection, the fetched topology and the canvas layout
+interface CanvasSnapshot {
+  selectedDevices: Device[];
+  topologyDevices: Device[];
+  topologyData: TopologyResponse['topology'] | null;
+  deviceDirections: Map<string, 'parents' | 'children' | 'both'>;
+  deviceDepths: Map<string, number>;
+  // Null while the canvas isn't mounted (no devices on it)
+  canvas: CanvasLayoutState | null;
+}
+
 function AppContent() {
   const [selectedDevices, setSelectedDevices] = useState<Device[]>([]);
   const [topologyDevices, setTopologyDevices] = useState<Device[]>([]);
@@ -19,12 +38,93 @@ function AppContent() {
   const [deviceDepths, setDeviceDepths] = useState<Map<string, number>>(new Map());
   const [globalDepth, setGlobalDepth] = useState<number>(configService.getTopologyConfig().controls.defaultDepth);
   const [isCanvasLocked, setIsCanvasLocked] = useState(false); // Canvas lock state lifted from SimpleVisNetworkTopology
+  const [isSavedViewsOpen, setIsSavedViewsOpen] = useState(false);
+  const [restoredCanvasState, setRestoredCanvasState] = useState<CanvasLayoutState | null>(null);
+  // Name of the imported file(s) while an offline topology is on the canvas - read-only, no API calls
+  const [offlineSource, setOfflineSource] = useState<string | null>(null);
+  // Saved view currently on the canvas - cleared once the seeds change
+  const [activeViewName, setActiveViewName] = useState<string | null>(null);
   const defaultDirection = configService.getTopologyConfig().controls.defaultDirection as 'parents' | 'children' | 'both';
   const containerRef = useRef<HTMLDivElement>(null);
+  const topologyRef = useRef<SimpleVisNetworkTopologyRef>(null);
   const { theme, toggleTheme } = useTheme();
+  const history = useUndoHistory<CanvasSnapshot>();
+
+  // Current state for the undo history. The maps are copied because some handlers update them in place.
+  const captureSnapshot = (): CanvasSnapshot => {
+    const canvas = topologyRef.current?.getCanvasLayoutState();
+    return {
+      selectedDevices,
+      topologyDevices,
+      topologyData,
+      deviceDirections: new Map(deviceDirections),
+      deviceDepths: new Map(deviceDepths),
+      // Undo puts devices back where they were but leaves the camera where it is
+      canvas: canvas ? { ...canvas, viewport: undefined } : null,
+    };
+  };
+
+  const recordHistory = (action: string) => {
+    history.record(action, captureSnapshot());
+  };
+
+  const applySnapshot = (snapshot: CanvasSnapshot) => {
+    setSelectedDevices(snapshot.selectedDevices);
+    setTopologyDevices(snapshot.topologyDevices);
+    setTopologyData(snapshot.topologyData);
+    setDeviceDirections(new Map(snapshot.deviceDirections));
+    setDeviceDepths(new Map(snapshot.deviceDepths));
+    setRestoredCanvasState(snapshot.canvas);
+  };
+
+  // Not while a fetch is in flight - its result would land on top of the restored state
+  const handleUndo = () => {
+    if (loadingTopology) return;
+    const entry = history.undo(captureSnapshot());
+    if (entry) applySnapshot(entry.snapshot);
+  };
+
+  const handleRedo = () => {
+    if (loadingTopology) return;
+    const entry = history.redo(captureSnapshot());
+    if (entry) applySnapshot(entry.snapshot);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) anywhere outside text fields
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  });
 
   const handleDeviceSelect = async (devices: Device[]) => {
+    // Picking an SL1 device replaces an offline topology (DeviceList confirms first)
+    const currentTopologyDevices = offlineSource ? [] : topologyDevices;
+    if (offlineSource) {
+      setOfflineSource(null);
+      setTopologyData(null);
+      setRestoredCanvasState(null);
+      history.clear();
+    } else {
+      recordHistory('Change device selection');
+    }
+
     setSelectedDevices(devices);
+    setActiveViewName(null);
     
     // Update topology to match chip area (selected devices)
     setTopologyDevices(devices);
@@ -61,9 +161,9 @@ function AppContent() {
     
     // Handle topology updates intelligently - DON'T rebuild everything
     // Identify new devices vs existing devices
-    const currentTopologyDeviceIds = new Set(topologyDevices.map(d => d.id));
+    const currentTopologyDeviceIds = new Set(currentTopologyDevices.map(d => d.id));
     const newDevices = devices.filter(device => !currentTopologyDeviceIds.has(device.id));
-    const removedDeviceIds = topologyDevices
+    const removedDeviceIds = currentTopologyDevices
       .filter(device => !devices.some(d => d.id === device.id))
       .map(device => device.id);
     
@@ -118,6 +218,224 @@ function AppContent() {
     // Clear device-specific settings so new placements use current global settings
     setDeviceDirections(new Map());
     setDeviceDepths(new Map());
+    setRestoredCanvasState(null);
+    setOfflineSource(null);
+    setActiveViewName(null);
+    history.clear();
+  };
+
+  // Saved views - capture app state plus the canvas layout owned by the topology component.
+  // Storage errors (e.g. a full quota) are thrown on to the saved views modal, which shows them.
+  const handleSaveView = (name: string) => {
+    if (!topologyData || !topologyRef.current) return;
+
+    savedViewsService.saveView({
+      name,
+      selectedDevices: topologyDevices,
+      deviceDirections: Object.fromEntries(deviceDirections),
+      deviceDepths: Object.fromEntries(deviceDepths),
+      globalDepth,
+      topology: topologyData,
+      canvas: topologyRef.current.getCanvasLayoutState(),
+    });
+    setActiveViewName(name);
+  };
+
+  // Load a saved view - restores the stored topology and positions without refetching or re-running layout
+  const handleLoadView = (view: SavedView) => {
+    setSelectedDevices(view.selectedDevices);
+    setTopologyDevices(view.selectedDevices);
+    setDeviceDirections(new Map(Object.entries(view.deviceDirections)));
+    setDeviceDepths(new Map(Object.entries(view.deviceDepths)));
+    setGlobalDepth(view.globalDepth);
+    setTopologyData(view.topology);
+    setRestoredCanvasState(view.canvas);
+    setOfflineSource(null);
+    setActiveViewName(view.name);
+    history.clear();
+  };
+
+  // Import graph files (DOT, TopologyResponse JSON or CSV tables) as an offline, read-only topology
+  const handleImportTopology = async (files: File[]) => {
+    const fileNames = files.map(file => file.name).join(', ');
+    try {
+      const imported = parseTopologyFiles(await Promise.all(
+        files.map(async file => ({ name: file.name, text: await readFileAsText(file) }))
+      ));
+
+      // Parentless nodes act as the selected seeds; a graph made only of cycles falls back to its first node
+      const childIds = new Set(imported.edges.map(edge => edge.target));
+      const seedNodes = imported.nodes.filter(node => !childIds.has(node.id));
+      const seedDevices: Device[] = (seedNodes.length > 0 ? seedNodes : imported.nodes.slice(0, 1)).map(node => ({
+        id: node.id,
+        name: node.label,
+        ip: node.ip,
+        type: node.type,
+        status: node.status,
+      }));
+
+      setSelectedDevices(seedDevices);
+      setTopologyDevices(seedDevices);
+      setDeviceDirections(new Map());
+      setDeviceDepths(new Map());
+      setTopologyData({ nodes: imported.nodes, edges: imported.edges });
+      // Use the file's positions when it has them, otherwise lay the graph out hierarchically
+      const hasPositions = Object.keys(imported.positions).length > 0;
+      setRestoredCanvasState({
+        positions: imported.positions,
+        lockedNodes: [],
+        layout: hasPositions ? 'physics' : 'hierarchical',
+      });
+      setOfflineSource(fileNames);
+      setActiveViewName(null);
+      history.clear();
+    } catch (error) {
+      alert(`Could not import ${fileNames}: ${(error as Error).message}`);
+    }
+  };
+
+  // Shareable link - seeds with their direction/depth plus the current layout mode, viewport and collapsed subtrees
+  const handleCopyLink = async (): Promise<boolean> => {
+    const canvas = topologyRef.current?.getCanvasLayoutState();
+    const deviceDirectionsObj: { [deviceId: string]: 'parents' | 'children' | 'both' } = {};
+    const deviceDepthsObj: { [deviceId: string]: number } = {};
+    topologyDevices.forEach(device => {
+      deviceDirectionsObj[device.id] = deviceDirections.get(device.id) || defaultDirection;
+      deviceDepthsObj[device.id] = deviceDepths.get(device.id) || globalDepth;
+    });
+
+    return copyToClipboard(buildShareUrl({
+      deviceIds: topologyDevices.map(d => d.id),
+      deviceDirections: deviceDirectionsObj,
+      deviceDepths: deviceDepthsObj,
+      layout: canvas?.layout || 'physics',
+      viewport: canvas?.viewport,
+      collapsedNodes: canvas?.collapsedNodes,
+    }));
+  };
+
+  // Open a shared link - rebuild the topology from the seeds encoded in the URL
+  useEffect(() => {
+    const shared = parseShareUrl(window.location.search);
+    if (!shared) return;
+    clearShareParams();
+
+    const loadSharedCanvas = async () => {
+      setLoadingTopology(true);
+      try {
+        const response = await apiService.getTopology({
+          deviceIds: shared.deviceIds,
+          deviceDirections: shared.deviceDirections,
+          deviceDepths: shared.deviceDepths,
+        });
+
+        // Seed devices come from the topology nodes - the link only carries their IDs
+        const seedDevices: Device[] = shared.deviceIds.map(id => {
+          const node = response.topology.nodes.find(n => n.id === id);
+          return {
+            id,
+            name: node?.label || id,
+            ip: node?.ip || '',
+            type: node?.type || 'Unknown',
+            status: node?.status || 'unknown',
+          };
+        });
+
+        // Ensure ALL seed devices appear on canvas, even if they have no relationships
+        const existingNodeIds = new Set(response.topology.nodes.map(n => n.id));
+        const missingDeviceNodes = seedDevices
+          .filter(device => !existingNodeIds.has(device.id))
+          .map(device => ({
+            id: device.id,
+            label: device.name,
+            type: device.type,
+            status: device.status,
+            ip: device.ip
+          }));
+
+        setSelectedDevices(seedDevices);
+        setTopologyDevices(seedDevices);
+        setDeviceDirections(new Map(Object.entries(shared.deviceDirections)));
+        setDeviceDepths(new Map(Object.entries(shared.deviceDepths)));
+        setTopologyData({
+          nodes: [...response.topology.nodes, ...missingDeviceNodes],
+          edges: response.topology.edges
+        });
+        // No stored positions - the canvas re-runs the shared layout, then applies the viewport
+        setRestoredCanvasState({
+          positions: {},
+          lockedNodes: [],
+          collapsedNodes: shared.collapsedNodes,
+          layout: shared.layout,
+          viewport: shared.viewport,
+        });
+      } catch (error) {
+        alert('Failed to load the shared topology');
+      } finally {
+        setLoadingTopology(false);
+      }
+    };
+
+    loadSharedCanvas();
+  }, []);
+
+  // Fetch extra topology around devices already on the canvas and merge it in without dropping anything.
+  // Used by the analysis panels when the loaded depth is not enough.
+  const expandTopologyAround = async (
+    expandDirections: { [deviceId: string]: 'parents' | 'children' | 'both' },
+    expandDepths: { [deviceId: string]: number },
+    errorMessage: string
+  ) => {
+    recordHistory('Expand topology');
+    setLoadingTopology(true);
+    try {
+      const response = await apiService.getTopology({
+        deviceIds: Object.keys(expandDepths),
+        deviceDirections: expandDirections,
+        deviceDepths: expandDepths
+      });
+
+      setTopologyData(prevTopology => {
+        if (!prevTopology) return response.topology;
+
+        const existingNodeIds = new Set(prevTopology.nodes.map(n => n.id));
+        const existingEdgeKeys = new Set(prevTopology.edges.map(e => getEdgeKey(e)));
+        return {
+          nodes: [...prevTopology.nodes, ...response.topology.nodes.filter(n => !existingNodeIds.has(n.id))],
+          edges: [...prevTopology.edges, ...response.topology.edges.filter(e => !existingEdgeKeys.has(getEdgeKey(e)))]
+        };
+      });
+      // Remember the expanded depth so a further expansion goes one level deeper again
+      setDeviceDepths(prev => {
+        const next = new Map(prev);
+        Object.entries(expandDepths).forEach(([deviceId, depth]) => next.set(deviceId, depth));
+        return next;
+      });
+    } catch (error) {
+      alert(errorMessage);
+    } finally {
+      setLoadingTopology(false);
+    }
+  };
+
+  // Find path found no route - go one level deeper in both directions around each endpoint
+  const handleExpandPathDepth = async (sourceId: string, targetId: string) => {
+    const maxDepth = configService.getTopologyConfig().controls.maxDepth;
+    const endpointDepths: { [deviceId: string]: number } = {};
+    const endpointDirections: { [deviceId: string]: 'parents' | 'children' | 'both' } = {};
+    [sourceId, targetId].forEach(deviceId => {
+      endpointDepths[deviceId] = Math.min((deviceDepths.get(deviceId) || globalDepth) + 1, maxDepth);
+      endpointDirections[deviceId] = 'both';
+    });
+
+    await expandTopologyAround(endpointDirections, endpointDepths, 'Failed to expand topology around the path endpoints');
+  };
+
+  // Impact analysis needs the full subtree - fetch to max depth. 'both' also loads alternate
+  // parents of downstream devices, otherwise they would wrongly count as impacted.
+  const handleExpandImpactDepth = async (deviceId: string) => {
+    const maxDepth = configService.getTopologyConfig().controls.maxDepth;
+    await expandTopologyAround({ [deviceId]: 'both' }, { [deviceId]: maxDepth }, 'Failed to fetch deeper children for impact analysis');
   };
 
   const handleSelectedNodeRemoval = (selectedNodeIds: string[], confirmationChoice?: 'complete' | 'preserve' | 'cancel') => {
@@ -158,6 +476,8 @@ function AppContent() {
       return; // Do nothing
     }
 
+    recordHistory(selectedNodeIds.length === 1 ? 'Remove node' : 'Remove nodes');
+
     // Determine what to remove based on confirmation choice
     let nodesToRemove = new Set<string>();
     let devicesToUnselect = new Set<string>();
@@ -330,6 +650,7 @@ function AppContent() {
   };
 
   const handleDepthChange = async (depth: number, deviceId?: string) => {
+    recordHistory('Change depth');
     if (deviceId) {
       // Change depth for specific device - UPDATE its portion of the topology
       
@@ -389,9 +710,9 @@ function AppContent() {
             );
             
             // Step 7: Add new edges (that weren't already in the topology)
-            const existingEdgeKeys = new Set(keptEdges.map(edge => `${edge.source}-${edge.target}`));
+            const existingEdgeKeys = new Set(keptEdges.map(edge => getEdgeKey(edge)));
             const newEdges = response.topology.edges.filter(edge => 
-              !existingEdgeKeys.has(`${edge.source}-${edge.target}`)
+              !existingEdgeKeys.has(getEdgeKey(edge))
             );
             
             
@@ -421,6 +742,7 @@ function AppContent() {
   };
 
   const handleDirectionChange = async (direction: 'parents' | 'children' | 'both', deviceId?: string) => {
+    recordHistory('Change direction');
     if (deviceId) {
       // Change direction for specific device - UPDATE its portion of the topology
       setDeviceDirections(prev => new Map(prev.set(deviceId, direction)));
@@ -615,10 +937,10 @@ function AppContent() {
         );
         
         // Filter new edges for duplicates and validate against current node set  
-        const existingEdgeKeys = new Set(validExistingEdges.map(e => `${e.source}-${e.target}`));
+        const existingEdgeKeys = new Set(validExistingEdges.map(e => getEdgeKey(e)));
         const validNewEdges = response.topology.edges.filter(e => {
           const hasValidNodes = mergedNodeIds.has(e.source) && mergedNodeIds.has(e.target);
-          const isNotDuplicate = !existingEdgeKeys.has(`${e.source}-${e.target}`);
+          const isNotDuplicate = !existingEdgeKeys.has(getEdgeKey(e));
           return hasValidNodes && isNotDuplicate;
         });
         
@@ -744,6 +1066,9 @@ function AppContent() {
             globalDepth={globalDepth}
             onDepthChange={handleGlobalDepthChange}
             isLocked={isCanvasLocked}
+            onOpenSavedViews={() => setIsSavedViewsOpen(true)}
+            onImportTopology={handleImportTopology}
+            isOffline={!!offlineSource}
           />
         </div>
       </div>
@@ -796,30 +1121,65 @@ function AppContent() {
         ) : (
           <div className="relative h-full animate-scale-in" style={{ animationDelay: '200ms' }}>
             {loadingTopology && (
-              <div className="absolute top-6 left-1/2 transform -translate-x-1/2 z-10 glass-panel px-4 py-3 rounded-xl border border-slate-200/50 dark:border-slate-600/50 backdrop-blur-md animate-slide-in animate-glow">
+              <div className="absolute top-20 left-1/2 transform -translate-x-1/2 z-10 glass-panel px-4 py-3 rounded-xl border border-slate-200/50 dark:border-slate-600/50 backdrop-blur-md animate-slide-in animate-glow">
                 <div className="flex items-center space-x-3 text-slate-700 dark:text-slate-200">
                   <div className="w-5 h-5 border-2 border-slate-600 dark:border-slate-300 border-t-transparent rounded-full animate-spin"></div>
                   <span className="font-medium">Loading topology...</span>
                 </div>
               </div>
             )}
+            {offlineSource && (
+              <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 z-10 glass-panel px-4 py-2 rounded-xl border border-amber-300/60 dark:border-amber-600/60 flex items-center gap-3 text-sm text-amber-800 dark:text-amber-200">
+                <span className="font-semibold">Offline topology</span>
+                <span className="truncate max-w-xs" title={offlineSource}>{offlineSource}</span>
+                <span className="text-xs opacity-75">read-only</span>
+                <button
+                  onClick={handleClearAll}
+                  className="px-2 py-0.5 rounded-md bg-amber-100 hover:bg-amber-200 dark:bg-amber-900/50 dark:hover:bg-amber-800/50 text-xs font-medium transition-colors duration-200"
+                >
+                  Close
+                </button>
+              </div>
+            )}
             <VisControlledTopology 
+              ref={topologyRef}
               devices={topologyDevices}
               selectedDevices={selectedDevices}
               topologyData={topologyData}
               deviceDirections={deviceDirections}
               deviceDepths={deviceDepths}
               globalDepth={globalDepth}
-              onDirectionChange={handleDirectionChange}
-              onDepthChange={handleDepthChange}
-              onSelectedNodeRemoval={handleSelectedNodeRemoval}
+              onDirectionChange={offlineSource ? undefined : handleDirectionChange}
+              onDepthChange={offlineSource ? undefined : handleDepthChange}
+              onSelectedNodeRemoval={offlineSource ? undefined : handleSelectedNodeRemoval}
               onCanvasLockChange={handleCanvasLockChange}
+              restoredCanvasState={restoredCanvasState}
+              onCanvasStateRestored={() => setRestoredCanvasState(null)}
+              onCopyLink={offlineSource ? undefined : handleCopyLink}
+              onCanvasChange={recordHistory}
+              undoLabel={history.undoLabel}
+              redoLabel={history.redoLabel}
+              onUndo={handleUndo}
+              onRedo={handleRedo}
+              onExpandPathDepth={offlineSource ? undefined : handleExpandPathDepth}
+              onExpandImpactDepth={offlineSource ? undefined : handleExpandImpactDepth}
+              isOffline={!!offlineSource}
+              viewName={activeViewName || offlineSource || undefined}
               className="h-full"
               theme={theme}
             />
           </div>
         )}
       </div>
+
+      {/* Saved Views */}
+      <SavedViewsModal
+        isOpen={isSavedViewsOpen}
+        canSave={topologyDevices.length > 0 && !!topologyData && !offlineSource}
+        onSave={handleSaveView}
+        onLoad={handleLoadView}
+        onClose={() => setIsSavedViewsOpen(false)}
+      />
     </div>
   );
 }
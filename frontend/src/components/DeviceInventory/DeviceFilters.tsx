@@ -1,15 +1,19 @@
 import React from 'react';
+import { Device, DeviceOrganization } from '../../services/api';
 
 interface DeviceFiltersProps {
+  organizations: DeviceOrganization[];
+  selectedOrganization: string | null; // Organization ID
+  onOrganizationChange: (organizationId: string | null) => void;
   types: string[];
   selectedType: string | null;
   onTypeChange: (type: string | null) => void;
-  selectedStatus: string | null;
-  onStatusChange: (status: string | null) => void;
+  selectedStatus: Device['status'] | null;
+  onStatusChange: (status: Device['status'] | null) => void;
   onClearFilters: () => void;
 }
 
-const statuses = [
+const statuses: { value: Device['status']; label: string; color: string }[] = [
   { value: 'online', label: 'Online', color: 'text-green-600' },
   { value: 'offline', label: 'Offline', color: 'text-red-600' },
   { value: 'warning', label: 'Warning', color: 'text-yellow-600' },
@@ -17,6 +21,9 @@ const statuses = [
 ];
 
 export const DeviceFilters: React.FC<DeviceFiltersProps> = ({
+  organizations,
+  selectedOrganization,
+  onOrganizationChange,
   types,
   selectedType,
   onTypeChange,
@@ -25,7 +32,20 @@ export const DeviceFilters: React.FC<DeviceFiltersProps> = ({
   onClearFilters,
 }) => {
   return (
-    <div className="flex items-center space-x-3">
+    <div className="flex flex-wrap items-center gap-3">
+      <select
+        value={selectedOrganization || ''}
+        onChange={(e) => onOrganizationChange(e.target.value || null)}
+        className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 transition-colors duration-300"
+      >
+        <option value="">All Organizations</option>
+        {organizations.map((organization) => (
+          <option key={organization.id} value={organization.id}>
+            {organization.name}
+          </option>
+        ))}
+      </select>
+
       <select
         value={selectedType || ''}
         onChange={(e) => onTypeChange(e.target.value || null)}
@@ -41,7 +61,7 @@ export const DeviceFilters: React.FC<DeviceFiltersProps> = ({
 
       <select
         value={selectedStatus || ''}
-        onChange={(e) => onStatusChange(e.target.value || null)}
+        onChange={(e) => onStatusChange((e.target.value || null) as Device['status'] | null)}
         className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 transition-colors duration-300"
       >
         <option value="">All Status</option>
@@ -52,7 +72,7 @@ export const DeviceFilters: React.FC<DeviceFiltersProps> = ({
         ))}
       </select>
 
-      {(selectedType || selectedStatus) && (
+      {(selectedOrganization || selectedType || selectedStatus) && (
         <button
           onClick={onClearFilters}
           className="px-3 py-2 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 transition-colors duration-300"
@@ -44,6 +44,11 @@ export const DeviceItem: React.FC<DeviceItemProps> = ({
           <div className="flex items-center mt-1 text-muted font-mono text-xs">
             <div className="w-1.5 h-1.5 bg-gradient-to-br from-blue-400/60 to-blue-500/60 rounded-full mr-2"></div>
             <span className="tracking-wide">{device.ip}</span>
+            {device.organization && (
+              <span className="ml-2 font-sans truncate" title={`Organization: ${device.organization.name}`}>
+                · {device.organization.name}
+              </span>
+            )}
           </div>
         </div>
       </div>
@@ -1,11 +1,15 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { FixedSizeList as List } from 'react-window';
-import { Device, apiService } from '../../services/api';
+import { Device, DeviceOrganization, DevicesResponse, apiService } from '../../services/api';
 import { configService } from '../../services/config';
+import { DeviceQuery, isPlainNameQuery, matchesDeviceQuery, parseDeviceQuery } from '../../utils/deviceQuery';
 import { DeviceItem } from './DeviceItem';
 import { DeviceSearch, DeviceSearchRef } from './DeviceSearch';
+import { DeviceFilters } from './DeviceFilters';
 import { LogoutButton } from '../Auth/LogoutButton';
 
+// Upper bound on server pages read to fill one page of query matches - "Load more" carries on
+const MAX_PAGES_PER_LOAD = 10;
 
 interface DeviceListProps {
   onDeviceSelect: (devices: Device[]) => void;
@@ -16,6 +20,10 @@ interface DeviceListProps {
   globalDepth?: number;
   onDepthChange?: (depth: number) => void;
   isLocked?: boolean;
+  onOpenSavedViews?: () => void;
+  // Load graph files (DOT, JSON or CSV tables) onto the canvas as an offline topology
+  onImportTopology?: (files: File[]) => void;
+  isOffline?: boolean;
 }
 
 export const DeviceList: React.FC<DeviceListProps> = ({
@@ -27,6 +35,9 @@ export const DeviceList: React.FC<DeviceListProps> = ({
   globalDepth = 2,
   onDepthChange,
   isLocked = false,
+  onOpenSavedViews,
+  onImportTopology,
+  isOffline = false,
 }) => {
   const [devices, setDevices] = useState<Device[]>([]);
   const [selectedDevices, setSelectedDevices] = useState<Set<string>>(new Set());
@@ -36,7 +47,23 @@ export const DeviceList: React.FC<DeviceListProps> = ({
   
   // Filters
   const [searchTerm, setSearchTerm] = useState('');
+  const [selectedOrganization, setSelectedOrganization] = useState<string | null>(null);
+  const [selectedType, setSelectedType] = useState<string | null>(null);
+  const [selectedStatus, setSelectedStatus] = useState<Device['status'] | null>(null);
+  // Filter values cover the whole inventory, not just the loaded pages
+  const [availableTypes, setAvailableTypes] = useState<string[]>([]);
+  const [organizations, setOrganizations] = useState<DeviceOrganization[]>([]);
   const searchRef = useRef<DeviceSearchRef>(null);
+  // Structured search - invalid queries show an inline error and keep the current list
+  let searchQuery: DeviceQuery | null = null;
+  let queryError: string | null = null;
+  try {
+    searchQuery = parseDeviceQuery(searchTerm);
+  } catch (err) {
+    queryError = (err as Error).message;
+  }
+  const isPlainSearch = isPlainNameQuery(searchQuery);
+  const importInputRef = useRef<HTMLInputElement>(null);
   
   // Pagination - use config
   const devicesConfig = configService.getDevicesConfig();
@@ -51,43 +78,74 @@ export const DeviceList: React.FC<DeviceListProps> = ({
     setError(null);
     
     try {
-      const currentCursor = reset ? null : nextCursor;
-      
-      const response = await apiService.getDevices({
-        search: searchTerm,
-        limit,
-        cursor: currentCursor || undefined,
-      });
-      
+      let currentCursor = reset ? null : nextCursor;
+      const pageDevices: Device[] = [];
+      let response: DevicesResponse;
+      let pageCount = 0;
+
+      // SL1 only approximates wildcards - recheck each page with the exact match and keep
+      // reading pages until a full page of matches is collected
+      do {
+        response = await apiService.getDevices({
+          // A single word keeps the plain (cached) name search, anything else is sent as a query
+          search: isPlainSearch && searchQuery?.op === 'term' ? searchQuery.value : undefined,
+          query: isPlainSearch ? undefined : searchQuery,
+          organization: selectedOrganization || undefined,
+          type: selectedType || undefined,
+          status: selectedStatus || undefined,
+          limit,
+          cursor: currentCursor || undefined,
+        });
+        pageDevices.push(...(isPlainSearch
+          ? response.devices
+          : response.devices.filter(device => matchesDeviceQuery(searchQuery, device))));
+        currentCursor = response.pagination.nextCursor || null;
+        pageCount++;
+      } while (
+        !isPlainSearch &&
+        pageDevices.length < limit &&
+        response.pagination.hasMore &&
+        currentCursor &&
+        pageCount < MAX_PAGES_PER_LOAD
+      );
       
       if (reset) {
-        setDevices(response.devices);
+        setDevices(pageDevices);
       } else {
         // Add new devices to the list
         setDevices((prev) => {
           const existingIds = new Set(prev.map(d => d.id));
-          const newDevices = response.devices.filter(d => !existingIds.has(d.id));
+          const newDevices = pageDevices.filter(d => !existingIds.has(d.id));
           return [...prev, ...newDevices];
         });
       }
       
       setHasMore(response.pagination.hasMore);
-      setNextCursor(response.pagination.nextCursor || null);
-      setTotal(response.pagination.total);
+      setNextCursor(currentCursor);
+      // The server total counts its approximate matches, so query results show no total
+      setTotal(isPlainSearch ? response.pagination.total : -1);
+      // Failed requests come back with empty filters - keep the last known values
+      if (response.filters.availableTypes.length > 0) {
+        setAvailableTypes(response.filters.availableTypes);
+      }
+      if (response.filters.availableOrganizations?.length) {
+        setOrganizations(response.filters.availableOrganizations);
+      }
       
     } catch (err) {
       setError('Failed to fetch devices');
     } finally {
       setLoading(false);
     }
-  }, [searchTerm, limit, nextCursor]);
+  }, [searchTerm, selectedOrganization, selectedType, selectedStatus, limit, nextCursor]);
 
   
-  // Separate effect for search term to maintain selection
+  // Separate effect for search term and filters to maintain selection
   useEffect(() => {
+    if (queryError) return;
     setNextCursor(null);
     fetchDevices(true);
-  }, [searchTerm]);
+  }, [searchTerm, selectedOrganization, selectedType, selectedStatus]);
 
   // Sync local selected devices with parent state
   useEffect(() => {
@@ -101,6 +159,21 @@ export const DeviceList: React.FC<DeviceListProps> = ({
     const newSelected = new Set(selectedDevices);
     let updatedDeviceObjects = [...allSelectedDeviceObjects];
     
+    if (isOffline) {
+      // SL1 devices can't be mixed into an imported topology - start a fresh canvas instead
+      const confirmed = window.confirm(
+        'Offline Topology Loaded\n\n' +
+        'Adding an SL1 device closes the imported topology.\n\n' +
+        'Are you sure you want to proceed?'
+      );
+      if (confirmed) {
+        setSelectedDevices(new Set([device.id]));
+        setAllSelectedDeviceObjects([device]);
+        onDeviceSelect([device]);
+      }
+      return;
+    }
+
     if (!newSelected.has(device.id)) {
       // Only add device if not already selected
       newSelected.add(device.id);
@@ -121,6 +194,12 @@ export const DeviceList: React.FC<DeviceListProps> = ({
     searchRef.current?.clear();
   };
 
+  const handleClearFilters = () => {
+    setSelectedOrganization(null);
+    setSelectedType(null);
+    setSelectedStatus(null);
+  };
+
   // Handle Clear All with lock confirmation
   const handleClearAll = () => {
     if (isLocked) {
@@ -176,6 +255,46 @@ export const DeviceList: React.FC<DeviceListProps> = ({
                   </span>
                 </button>
               )}
+              {/* Saved Views */}
+              {onOpenSavedViews && (
+                <button
+                  onClick={onOpenSavedViews}
+                  className="px-3 py-2 rounded-lg bg-slate-100 hover:bg-slate-200 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200 transition-all duration-200 hover:scale-105 flex items-center gap-2"
+                  title="Save or load canvas views"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                  </svg>
+                  <span className="text-sm font-medium">Views</span>
+                </button>
+              )}
+              {/* Import graph file */}
+              {onImportTopology && (
+                <>
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".json,.csv,.dot,.gv"
+                    multiple
+                    onChange={(e) => {
+                      const files = Array.from(e.target.files || []);
+                      if (files.length > 0) onImportTopology(files);
+                      e.target.value = '';
+                    }}
+                    className="hidden"
+                  />
+                  <button
+                    onClick={() => importInputRef.current?.click()}
+                    className="px-3 py-2 rounded-lg bg-slate-100 hover:bg-slate-200 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200 transition-all duration-200 hover:scale-105 flex items-center gap-2"
+                    title="Import an offline topology (JSON, DOT, or node + edge CSV files)"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                    </svg>
+                    <span className="text-sm font-medium">Import</span>
+                  </button>
+                </>
+              )}
             </div>
             <div className="flex items-center gap-3">
               {/* Clear All Button - Shows when devices are selected */}
@@ -198,7 +317,18 @@ export const DeviceList: React.FC<DeviceListProps> = ({
           
           {/* Search and controls row */}
           <div className="space-y-4">
-            <DeviceSearch ref={searchRef} onSearch={setSearchTerm} />
+            <DeviceSearch ref={searchRef} onSearch={setSearchTerm} error={queryError} />
+            <DeviceFilters
+              organizations={organizations}
+              selectedOrganization={selectedOrganization}
+              onOrganizationChange={setSelectedOrganization}
+              types={availableTypes}
+              selectedType={selectedType}
+              onTypeChange={setSelectedType}
+              selectedStatus={selectedStatus}
+              onStatusChange={setSelectedStatus}
+              onClearFilters={handleClearFilters}
+            />
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-4 text-sm text-slate-600 dark:text-slate-400">
                 {total === -1 ? (
@@ -319,7 +449,7 @@ export const DeviceList: React.FC<DeviceListProps> = ({
         ) : (
           <div className="bg-gradient-to-b from-slate-50/20 to-blue-50/10 backdrop-blur-[2px]">
             <List
-              height={window.innerHeight - 280}
+              height={window.innerHeight - 336}
               itemCount={devices.length}
               itemSize={60}
               width="100%"
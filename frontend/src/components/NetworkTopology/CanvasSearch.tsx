@@ -1,10 +1,15 @@
 import { useState, useEffect, useImperativeHandle, forwardRef } from 'react';
+import { DEVICE_QUERY_HELP } from '../../utils/deviceQuery';
 
 interface CanvasSearchProps {
   onSearch: (searchTerm: string) => void;
+  onSubmit?: (searchTerm: string) => void;
+  placeholder?: string;
   theme?: 'light' | 'dark';
   isVisible?: boolean;
   onClose?: () => void;
+  // Inline message for a query that doesn't parse
+  error?: string | null;
 }
 
 export interface CanvasSearchRef {
@@ -14,9 +19,12 @@ export interface CanvasSearchRef {
 
 export const CanvasSearch = forwardRef<CanvasSearchRef, CanvasSearchProps>(({
   onSearch,
+  onSubmit,
+  placeholder = 'Search canvas, e.g. type:switch status:offline',
   theme = 'light',
   isVisible = false,
   onClose,
+  error = null,
 }, ref) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [inputRef, setInputRef] = useState<HTMLInputElement | null>(null);
@@ -109,7 +117,14 @@ export const CanvasSearch = forwardRef<CanvasSearchRef, CanvasSearchProps>(({
           type="text"
           value={searchTerm}
           onChange={(e) => setSearchTerm(e.target.value)}
-          placeholder="Search canvas by name..."
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && onSubmit) {
+              onSubmit(searchTerm);
+            }
+          }}
+          placeholder={placeholder}
+          title={DEVICE_QUERY_HELP}
+          aria-invalid={!!error}
           className={`
             flex-1 bg-transparent outline-none
             ${focusClasses}
@@ -156,16 +171,20 @@ export const CanvasSearch = forwardRef<CanvasSearchRef, CanvasSearchProps>(({
         </button>
       </div>
 
-      {/* Search Results Counter */}
+      {/* Query error, or the clear hint */}
       {searchTerm && (
         <div className={`
-          mt-2 text-xs text-center py-1 px-3 rounded-lg backdrop-blur-sm
-          ${theme === 'dark' 
-            ? 'bg-gray-800/80 text-gray-300 border border-gray-600/50' 
-            : 'bg-white/80 text-gray-600 border border-gray-200/50'
+          mt-2 text-xs text-center py-1 px-3 rounded-lg backdrop-blur-sm max-w-[280px] ml-auto
+          ${error
+            ? (theme === 'dark'
+                ? 'bg-red-900/80 text-red-200 border border-red-700/50'
+                : 'bg-red-50/90 text-red-700 border border-red-200/50')
+            : (theme === 'dark' 
+                ? 'bg-gray-800/80 text-gray-300 border border-gray-600/50' 
+                : 'bg-white/80 text-gray-600 border border-gray-200/50')
           }
         `}>
-          Press Esc to clear search
+          {error || 'Press Esc to clear search'}
         </div>
       )}
     </div>
@@ -0,0 +1,65 @@
+import React from 'react';
+import { TopologyNode } from '../../services/api';
+
+// Status dot colors shared by the analysis panels
+export const statusDotClasses: Record<TopologyNode['status'], string> = {
+  online: 'bg-green-500',
+  warning: 'bg-amber-500',
+  offline: 'bg-red-500',
+  unknown: 'bg-gray-400',
+};
+
+interface CanvasSidebarProps {
+  title: string;
+  subtitle?: string;
+  onClose: () => void;
+  theme?: 'light' | 'dark';
+  children: React.ReactNode;
+}
+
+// Fixed panel docked to the right edge of the canvas (below the canvas search bar)
+export const CanvasSidebar: React.FC<CanvasSidebarProps> = ({
+  title,
+  subtitle,
+  onClose,
+  theme = 'light',
+  children,
+}) => {
+  const themeClasses = theme === 'dark'
+    ? 'bg-gray-800/95 border-gray-600 text-gray-100'
+    : 'bg-white/95 border-gray-200 text-gray-800';
+
+  return (
+    <div className={`absolute top-20 right-4 bottom-16 w-80 z-30 flex flex-col rounded-xl border shadow-xl backdrop-blur-sm animate-fade-in ${themeClasses}`}>
+      {/* Header */}
+      <div className={`flex items-start justify-between gap-2 px-4 py-3 border-b ${
+        theme === 'dark' ? 'border-gray-600' : 'border-gray-200'
+      }`}>
+        <div className="min-w-0">
+          <h3 className="text-sm font-semibold truncate">{title}</h3>
+          {subtitle && (
+            <p className={`text-xs mt-0.5 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+              {subtitle}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={onClose}
+          className={`flex-shrink-0 w-6 h-6 rounded-full flex items-center justify-center transition-colors duration-200 ${
+            theme === 'dark'
+              ? 'hover:bg-gray-700 text-gray-400 hover:text-gray-200'
+              : 'hover:bg-gray-100 text-gray-500 hover:text-gray-700'
+          }`}
+          title="Close"
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto px-4 py-3">
+        {children}
+      </div>
+    </div>
+  );
+};
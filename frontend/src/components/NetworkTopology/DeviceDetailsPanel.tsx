@@ -0,0 +1,158 @@
+import React from 'react';
+import { DeviceDetails, DeviceEvent, DeviceRelative } from '../../services/api';
+import { SEVERITY_COLORS, SEVERITY_LABELS } from '../../utils/events';
+import { CanvasSidebar, statusDotClasses } from './CanvasSidebar';
+
+interface DeviceDetailsPanelProps {
+  deviceName: string;
+  details: DeviceDetails | null;
+  isLoading: boolean;
+  error: string | null;
+  // Open events from the canvas event overlay, most severe first
+  events: DeviceEvent[];
+  // Relatives can only be focused when they are loaded on the canvas
+  canvasNodeIds: Set<string>;
+  onFocusNode: (nodeId: string) => void;
+  onRetry: () => void;
+  onClose: () => void;
+  theme?: 'light' | 'dark';
+}
+
+export const DeviceDetailsPanel: React.FC<DeviceDetailsPanelProps> = ({
+  deviceName,
+  details,
+  isLoading,
+  error,
+  events,
+  canvasNodeIds,
+  onFocusNode,
+  onRetry,
+  onClose,
+  theme = 'light',
+}) => {
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-500';
+  const cardClasses = theme === 'dark'
+    ? 'bg-gray-700/60 border-gray-600 hover:bg-gray-700'
+    : 'bg-gray-50 border-gray-200 hover:bg-gray-100';
+  const tableRowClass = `flex items-start justify-between gap-3 py-1 text-sm border-b last:border-b-0 ${
+    theme === 'dark' ? 'border-gray-700' : 'border-gray-100'
+  }`;
+
+  const attributes: [string, React.ReactNode][] = details
+    ? [
+        ['Device class', details.deviceClass || details.type],
+        ['Organization', details.organization?.name],
+        ['IP address', details.ip],
+        ['State', (
+          <span className="flex items-center gap-2">
+            <span className={`w-2 h-2 rounded-full ${statusDotClasses[details.status] || statusDotClasses.unknown}`} />
+            {details.state || details.status}
+          </span>
+        )],
+        ['Collector', details.collector?.name],
+        ['Last discovered', details.lastDiscovered ? new Date(details.lastDiscovered).toLocaleString() : undefined],
+        ['Device ID', details.id],
+      ]
+    : [];
+
+  const renderRelatives = (title: string, relatives: DeviceRelative[]) => (
+    <div>
+      <h4 className={`text-xs font-semibold uppercase mb-1 ${mutedText}`}>
+        {title} ({relatives.length})
+      </h4>
+      {relatives.length === 0 ? (
+        <p className={`text-xs ${mutedText}`}>None</p>
+      ) : (
+        <div className="space-y-1">
+          {relatives.map(relative => {
+            const isOnCanvas = canvasNodeIds.has(relative.id);
+            return (
+              <button
+                key={relative.id}
+                onClick={() => onFocusNode(relative.id)}
+                disabled={!isOnCanvas}
+                title={isOnCanvas ? 'Focus on canvas' : 'Not loaded on the canvas'}
+                className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-lg border text-left text-sm transition-colors duration-200 disabled:opacity-50 disabled:cursor-default ${cardClasses}`}
+              >
+                <span className={`w-2 h-2 rounded-full flex-shrink-0 ${statusDotClasses[relative.status] || statusDotClasses.unknown}`} />
+                <span className="flex-1 min-w-0 truncate">{relative.name || relative.id}</span>
+                <span className={`text-xs ${mutedText}`}>{relative.ip}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <CanvasSidebar
+      title="Device Details"
+      subtitle={details?.name || deviceName}
+      onClose={onClose}
+      theme={theme}
+    >
+      {isLoading ? (
+        <p className={`text-sm text-center py-6 ${mutedText}`}>Loading device details...</p>
+      ) : error ? (
+        <div className="text-center py-6 space-y-3">
+          <p className={`text-sm ${theme === 'dark' ? 'text-red-300' : 'text-red-600'}`}>{error}</p>
+          <button
+            onClick={onRetry}
+            className="px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium transition-colors duration-200"
+          >
+            Retry
+          </button>
+        </div>
+      ) : details && (
+        <div className="space-y-4">
+          {/* SL1 attributes */}
+          <div>
+            {attributes.map(([label, value]) => (
+              <div key={label} className={tableRowClass}>
+                <span className={`flex-shrink-0 ${mutedText}`}>{label}</span>
+                <span className="min-w-0 text-right break-words font-medium">{value || '—'}</span>
+              </div>
+            ))}
+          </div>
+
+          {/* Open events */}
+          <div>
+            <h4 className={`text-xs font-semibold uppercase mb-1 ${mutedText}`}>
+              Open events ({events.length})
+            </h4>
+            {events.length === 0 ? (
+              <p className={`text-xs ${mutedText}`}>None</p>
+            ) : (
+              <div className="space-y-1">
+                {events.map(event => (
+                  <div
+                    key={event.id}
+                    className={`px-2 py-1.5 rounded-lg border-l-4 text-sm ${theme === 'dark' ? 'bg-gray-700/60' : 'bg-gray-50'}`}
+                    style={{ borderLeftColor: SEVERITY_COLORS[event.severity] }}
+                  >
+                    <div className="break-words">{event.message}</div>
+                    <div className={`text-xs mt-0.5 ${mutedText}`}>
+                      {SEVERITY_LABELS[event.severity]}
+                      {event.count > 1 && ` · ${event.count}x`}
+                      {' · '}
+                      {new Date(event.lastSeen).toLocaleString()}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {renderRelatives('Parents', details.parents)}
+          {renderRelatives('Children', details.children)}
+          {details.relationshipsIncomplete && (
+            <p className={`text-xs ${theme === 'dark' ? 'text-amber-300' : 'text-amber-700'}`}>
+              This device has more relationships than could be loaded - parents and children are incomplete.
+            </p>
+          )}
+        </div>
+      )}
+    </CanvasSidebar>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useEffect, useRef, useState } from 'react';
 import styles from './DeviceRelationshipModal.module.css';
+import { ClusterKind } from '../../utils/clusters';
 
 interface DeviceRelationshipModalProps {
   isOpen: boolean;
@@ -11,9 +12,20 @@ interface DeviceRelationshipModalProps {
   currentDepth?: number;
   maxDepth?: number;
   isNodeLocked?: boolean;
-  onDirectionSelect: (direction: 'parents' | 'children' | 'both') => void;
+  // Omitted for read-only (offline) topologies
+  onDirectionSelect?: (direction: 'parents' | 'children' | 'both') => void;
   onDepthChange?: (depth: number) => void;
   onLockToggle?: () => void;
+  onImpactAnalysis?: () => void;
+  // Omitted for offline topologies - details come from the SL1 API
+  onShowDetails?: () => void;
+  // Hide or show the device's descendants - omitted for devices without children
+  isSubtreeCollapsed?: boolean;
+  hiddenDescendantCount?: number;
+  onToggleSubtree?: () => void;
+  // Groups this device can be collapsed into (its type, its /24, its children)
+  collapseOptions?: { kind: ClusterKind; label: string }[];
+  onCollapse?: (kind: ClusterKind) => void;
   onClose: () => void;
 }
 
@@ -59,6 +71,13 @@ export const DeviceRelationshipModal: React.FC<DeviceRelationshipModalProps> = (
   onDirectionSelect,
   onDepthChange,
   onLockToggle,
+  onImpactAnalysis,
+  onShowDetails,
+  isSubtreeCollapsed = false,
+  hiddenDescendantCount = 0,
+  onToggleSubtree,
+  collapseOptions = [],
+  onCollapse,
   onClose,
 }) => {
   
@@ -135,7 +154,7 @@ export const DeviceRelationshipModal: React.FC<DeviceRelationshipModalProps> = (
     if (onDepthChange) {
       onDepthChange(selectedDepth);
     }
-    onDirectionSelect(direction);
+    onDirectionSelect?.(direction);
     onClose();
   };
 
@@ -301,28 +320,30 @@ export const DeviceRelationshipModal: React.FC<DeviceRelationshipModalProps> = (
           )}
 
           {/* Direction Options */}
-          <div className={styles.options}>
-            {directionOptions.map((option) => (
-              <button
-                key={option.value}
-                className={`${styles.option} ${
-                  currentDirection === option.value ? styles.currentOption : ''
-                }`}
-                onClick={() => handleDirectionClick(option.value)}
-                style={{
-                  '--option-color': option.color,
-                } as React.CSSProperties}
-              >
-                <div className={styles.optionIcon}>{option.icon}</div>
-                <div className={styles.optionContent}>
-                  <div className={styles.optionLabel}>{option.label}</div>
-                </div>
-                {currentDirection === option.value && (
-                  <div className={styles.currentIndicator}>Current</div>
-                )}
-              </button>
-            ))}
-          </div>
+          {onDirectionSelect && (
+            <div className={styles.options}>
+              {directionOptions.map((option) => (
+                <button
+                  key={option.value}
+                  className={`${styles.option} ${
+                    currentDirection === option.value ? styles.currentOption : ''
+                  }`}
+                  onClick={() => handleDirectionClick(option.value)}
+                  style={{
+                    '--option-color': option.color,
+                  } as React.CSSProperties}
+                >
+                  <div className={styles.optionIcon}>{option.icon}</div>
+                  <div className={styles.optionContent}>
+                    <div className={styles.optionLabel}>{option.label}</div>
+                  </div>
+                  {currentDirection === option.value && (
+                    <div className={styles.currentIndicator}>Current</div>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
 
           {/* Lock/Unlock Node Section */}
           {onLockToggle && (
@@ -361,6 +382,111 @@ export const DeviceRelationshipModal: React.FC<DeviceRelationshipModalProps> = (
               </button>
             </>
           )}
+
+          {/* Device Details Section */}
+          {onShowDetails && (
+            <button
+              className={styles.option}
+              onClick={() => {
+                onShowDetails();
+                onClose();
+              }}
+              style={{
+                '--option-color': '#2563eb',
+                marginTop: '8px',
+              } as React.CSSProperties}
+            >
+              <div className={styles.optionIcon}>
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+              </div>
+              <div className={styles.optionContent}>
+                <div className={styles.optionLabel}>Device Details</div>
+              </div>
+            </button>
+          )}
+
+          {/* Impact Analysis Section */}
+          {onImpactAnalysis && (
+            <button
+              className={styles.option}
+              onClick={() => {
+                onImpactAnalysis();
+                onClose();
+              }}
+              style={{
+                '--option-color': '#dc2626',
+                marginTop: '8px',
+              } as React.CSSProperties}
+            >
+              <div className={styles.optionIcon}>
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                </svg>
+              </div>
+              <div className={styles.optionContent}>
+                <div className={styles.optionLabel}>Impact Analysis</div>
+              </div>
+            </button>
+          )}
+
+          {/* Collapse Section */}
+          {(onToggleSubtree || (onCollapse && collapseOptions.length > 0)) && (
+            <div className={styles.divider} style={{ margin: '8px 0', borderTop: '1px solid #e5e7eb' }} />
+          )}
+
+          {onToggleSubtree && (
+            <button
+              className={styles.option}
+              onClick={() => {
+                onToggleSubtree();
+                onClose();
+              }}
+              style={{
+                '--option-color': '#4f46e5',
+                marginTop: '8px',
+              } as React.CSSProperties}
+            >
+              <div className={styles.optionIcon}>
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={isSubtreeCollapsed ? 'M12 4v16m8-8H4' : 'M20 12H4'} />
+                </svg>
+              </div>
+              <div className={styles.optionContent}>
+                <div className={styles.optionLabel}>
+                  {isSubtreeCollapsed ? 'Expand Subtree' : 'Collapse Subtree'}
+                </div>
+              </div>
+              {isSubtreeCollapsed && hiddenDescendantCount > 0 && (
+                <div className={styles.currentIndicator} style={{ background: '#4f46e5' }}>+{hiddenDescendantCount}</div>
+              )}
+            </button>
+          )}
+
+          {onCollapse && collapseOptions.map(option => (
+            <button
+              key={option.kind}
+              className={styles.option}
+              onClick={() => {
+                onCollapse(option.kind);
+                onClose();
+              }}
+              style={{
+                '--option-color': '#0d9488',
+                marginTop: '8px',
+              } as React.CSSProperties}
+            >
+              <div className={styles.optionIcon}>
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8h16M4 16h16M9 4l3 4 3-4M9 20l3-4 3 4" />
+                </svg>
+              </div>
+              <div className={styles.optionContent}>
+                <div className={styles.optionLabel}>{option.label}</div>
+              </div>
+            </button>
+          ))}
         </div>
 
       </div>
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { EventSeverity, TopologyNode } from '../../services/api';
+import { DeviceEventSummary, SEVERITY_COLORS, SEVERITY_LABELS, SEVERITY_ORDER, severityRank } from '../../utils/events';
+import { CanvasSidebar } from './CanvasSidebar';
+
+type EventsSort = 'severity' | 'count' | 'name';
+
+interface EventsPanelProps {
+  nodes: TopologyNode[];
+  summaries: Map<string, DeviceEventSummary>;
+  // Minimum highest severity a device needs to be listed (and stay undimmed on the canvas)
+  minSeverity: EventSeverity | 'all';
+  error: string | null;
+  onMinSeverityChange: (severity: EventSeverity | 'all') => void;
+  onFocusNode: (nodeId: string) => void;
+  onClose: () => void;
+  theme?: 'light' | 'dark';
+}
+
+export const EventsPanel: React.FC<EventsPanelProps> = ({
+  nodes,
+  summaries,
+  minSeverity,
+  error,
+  onMinSeverityChange,
+  onFocusNode,
+  onClose,
+  theme = 'light',
+}) => {
+  const [sortBy, setSortBy] = useState<EventsSort>('severity');
+
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-500';
+  const cardClasses = theme === 'dark'
+    ? 'bg-gray-700/60 border-gray-600 hover:bg-gray-700'
+    : 'bg-gray-50 border-gray-200 hover:bg-gray-100';
+  const chipClass = (isActive: boolean) => `px-2 py-0.5 rounded-full border text-xs transition-colors duration-200 ${
+    isActive
+      ? 'bg-blue-600 border-blue-600 text-white'
+      : theme === 'dark' ? 'border-gray-600 hover:bg-gray-700' : 'border-gray-300 hover:bg-gray-100'
+  }`;
+
+  const devicesWithEvents = nodes
+    .filter(node => summaries.has(node.id))
+    .map(node => ({ node, summary: summaries.get(node.id)! }));
+  const totalBySeverity = SEVERITY_ORDER.map(severity => ({
+    severity,
+    count: devicesWithEvents.filter(({ summary }) => summary.highest === severity).length,
+  }));
+
+  const listed = devicesWithEvents
+    .filter(({ summary }) => minSeverity === 'all' || severityRank(summary.highest) >= severityRank(minSeverity))
+    .sort((a, b) => {
+      const byName = (a.node.label || a.node.id).localeCompare(b.node.label || b.node.id);
+      if (sortBy === 'name') return byName;
+      if (sortBy === 'count') return b.summary.count - a.summary.count || byName;
+      return severityRank(b.summary.highest) - severityRank(a.summary.highest) || b.summary.count - a.summary.count || byName;
+    });
+
+  return (
+    <CanvasSidebar
+      title="Open Events"
+      subtitle={`${devicesWithEvents.length} of ${nodes.length} device${nodes.length !== 1 ? 's' : ''} with open events`}
+      onClose={onClose}
+      theme={theme}
+    >
+      <div className="space-y-4">
+        {error && (
+          <p className={`text-xs ${theme === 'dark' ? 'text-red-300' : 'text-red-600'}`}>{error}</p>
+        )}
+
+        {/* Highest severity per device */}
+        <div className="grid grid-cols-4 gap-1 text-center">
+          {totalBySeverity.map(({ severity, count }) => (
+            <div key={severity} className={`py-1.5 rounded-lg border ${theme === 'dark' ? 'border-gray-600' : 'border-gray-200'}`}>
+              <div className="text-lg font-bold" style={{ color: SEVERITY_COLORS[severity] }}>{count}</div>
+              <div className={`text-xs ${mutedText}`}>{SEVERITY_LABELS[severity]}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Filter - minimum highest severity */}
+        <div>
+          <h4 className={`text-xs font-semibold uppercase mb-1 ${mutedText}`}>At least</h4>
+          <div className="flex flex-wrap gap-1">
+            <button onClick={() => onMinSeverityChange('all')} className={chipClass(minSeverity === 'all')}>
+              Any
+            </button>
+            {SEVERITY_ORDER.map(severity => (
+              <button key={severity} onClick={() => onMinSeverityChange(severity)} className={chipClass(minSeverity === severity)}>
+                {SEVERITY_LABELS[severity]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Sort */}
+        <div>
+          <h4 className={`text-xs font-semibold uppercase mb-1 ${mutedText}`}>Sort by</h4>
+          <div className="flex gap-1">
+            {(['severity', 'count', 'name'] as EventsSort[]).map(option => (
+              <button key={option} onClick={() => setSortBy(option)} className={`${chipClass(sortBy === option)} capitalize`}>
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Devices */}
+        {listed.length === 0 ? (
+          <p className={`text-sm text-center py-6 ${mutedText}`}>
+            {devicesWithEvents.length === 0 ? 'No open events on the canvas.' : 'No devices match this severity.'}
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {listed.map(({ node, summary }) => (
+              <button
+                key={node.id}
+                onClick={() => onFocusNode(node.id)}
+                className={`w-full px-2 py-1.5 rounded-lg border text-left transition-colors duration-200 ${cardClasses}`}
+              >
+                <div className="flex items-center gap-2 text-sm">
+                  <span
+                    className="px-1.5 rounded text-xs font-semibold text-white"
+                    style={{ backgroundColor: SEVERITY_COLORS[summary.highest] }}
+                  >
+                    {summary.count}
+                  </span>
+                  <span className="flex-1 min-w-0 truncate font-medium">{node.label || node.id}</span>
+                  <span className={`text-xs ${mutedText}`}>{SEVERITY_LABELS[summary.highest]}</span>
+                </div>
+                <div className={`text-xs mt-0.5 truncate ${mutedText}`}>{summary.events[0].message}</div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </CanvasSidebar>
+  );
+};
@@ -0,0 +1,130 @@
+import React from 'react';
+import { TopologyNode } from '../../services/api';
+import { CanvasSidebar, statusDotClasses } from './CanvasSidebar';
+
+interface ImpactAnalysisPanelProps {
+  deviceId: string;
+  nodes: TopologyNode[];
+  impactedIds: string[];
+  getStatus: (node: TopologyNode) => TopologyNode['status'];
+  isExpanding?: boolean;
+  onFocusNode: (nodeId: string) => void;
+  onExpandDepth?: () => void;
+  onClose: () => void;
+  theme?: 'light' | 'dark';
+}
+
+// Count occurrences of each key, largest first
+const countBy = (values: string[]): [string, number][] => {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+};
+
+export const ImpactAnalysisPanel: React.FC<ImpactAnalysisPanelProps> = ({
+  deviceId,
+  nodes,
+  impactedIds,
+  getStatus,
+  isExpanding = false,
+  onFocusNode,
+  onExpandDepth,
+  onClose,
+  theme = 'light',
+}) => {
+  const device = nodes.find(n => n.id === deviceId);
+  const impactedIdSet = new Set(impactedIds);
+  const impactedNodes = nodes.filter(n => impactedIdSet.has(n.id));
+
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-500';
+  const cardClasses = theme === 'dark'
+    ? 'bg-gray-700/60 border-gray-600 hover:bg-gray-700'
+    : 'bg-gray-50 border-gray-200 hover:bg-gray-100';
+  const tableRowClass = `flex items-center justify-between py-1 text-sm border-b last:border-b-0 ${
+    theme === 'dark' ? 'border-gray-700' : 'border-gray-100'
+  }`;
+
+  return (
+    <CanvasSidebar
+      title="Impact Analysis"
+      subtitle={`If ${device?.label || deviceId} goes down`}
+      onClose={onClose}
+      theme={theme}
+    >
+      <div className="space-y-4">
+        {/* Summary */}
+        <div className={`p-3 rounded-lg border ${
+          theme === 'dark' ? 'bg-red-900/30 border-red-800 text-red-200' : 'bg-red-50 border-red-200 text-red-800'
+        }`}>
+          <div className="text-2xl font-bold">{impactedNodes.length}</div>
+          <div className="text-xs">
+            downstream device{impactedNodes.length !== 1 ? 's' : ''} lose every path to a root
+          </div>
+        </div>
+
+        {/* Deeper fetch - the analysis only sees the loaded topology */}
+        {onExpandDepth && (
+          <div>
+            <p className={`text-xs mb-2 ${mutedText}`}>
+              Only loaded relationships are considered. Fetch deeper to include the full subtree.
+            </p>
+            <button
+              onClick={onExpandDepth}
+              disabled={isExpanding}
+              className="w-full px-3 py-1.5 rounded-md bg-red-600 hover:bg-red-700 text-white text-xs font-medium transition-colors duration-200 disabled:opacity-50"
+            >
+              {isExpanding ? 'Fetching...' : 'Fetch deeper children'}
+            </button>
+          </div>
+        )}
+
+        {impactedNodes.length > 0 && (
+          <>
+            {/* Count by type */}
+            <div>
+              <h4 className={`text-xs font-semibold uppercase mb-1 ${mutedText}`}>By type</h4>
+              {countBy(impactedNodes.map(n => n.type || 'Unknown')).map(([type, count]) => (
+                <div key={type} className={tableRowClass}>
+                  <span className="truncate">{type}</span>
+                  <span className="font-semibold">{count}</span>
+                </div>
+              ))}
+            </div>
+
+            {/* Count by status */}
+            <div>
+              <h4 className={`text-xs font-semibold uppercase mb-1 ${mutedText}`}>By status</h4>
+              {countBy(impactedNodes.map(n => getStatus(n) || 'unknown')).map(([status, count]) => (
+                <div key={status} className={tableRowClass}>
+                  <span className="flex items-center gap-2 capitalize">
+                    <span className={`w-2 h-2 rounded-full ${statusDotClasses[status as TopologyNode['status']] || statusDotClasses.unknown}`} />
+                    {status}
+                  </span>
+                  <span className="font-semibold">{count}</span>
+                </div>
+              ))}
+            </div>
+
+            {/* Impacted devices */}
+            <div>
+              <h4 className={`text-xs font-semibold uppercase mb-1 ${mutedText}`}>Devices</h4>
+              <div className="space-y-1">
+                {impactedNodes.map(node => (
+                  <button
+                    key={node.id}
+                    onClick={() => onFocusNode(node.id)}
+                    className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-lg border text-left text-sm transition-colors duration-200 ${cardClasses}`}
+                  >
+                    <span className={`w-2 h-2 rounded-full flex-shrink-0 ${statusDotClasses[getStatus(node)] || statusDotClasses.unknown}`} />
+                    <span className="flex-1 min-w-0 truncate">{node.label || node.id}</span>
+                    <span className={`text-xs ${mutedText}`}>{node.type}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </CanvasSidebar>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import { TopologyNode } from '../../services/api';
+import { CauseCandidate } from '../../utils/graph';
+import { CanvasSidebar, statusDotClasses } from './CanvasSidebar';
+
+interface LikelyCausePanelProps {
+  nodes: TopologyNode[];
+  candidates: CauseCandidate[];
+  failingCount: number;
+  highlightCount: number;
+  getStatus: (node: TopologyNode) => TopologyNode['status'];
+  onFocusNode: (nodeId: string) => void;
+  onClose: () => void;
+  theme?: 'light' | 'dark';
+}
+
+export const LikelyCausePanel: React.FC<LikelyCausePanelProps> = ({
+  nodes,
+  candidates,
+  failingCount,
+  highlightCount,
+  getStatus,
+  onFocusNode,
+  onClose,
+  theme = 'light',
+}) => {
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-500';
+  const cardClasses = theme === 'dark'
+    ? 'bg-gray-700/60 border-gray-600 hover:bg-gray-700'
+    : 'bg-gray-50 border-gray-200 hover:bg-gray-100';
+  const topCardClasses = theme === 'dark'
+    ? 'bg-orange-900/30 border-orange-700 hover:bg-orange-900/50'
+    : 'bg-orange-50 border-orange-300 hover:bg-orange-100';
+
+  return (
+    <CanvasSidebar
+      title="Likely Cause"
+      subtitle={`${failingCount} offline/warning device${failingCount !== 1 ? 's' : ''} on the canvas`}
+      onClose={onClose}
+      theme={theme}
+    >
+      {failingCount < 2 ? (
+        <p className={`text-sm text-center py-6 ${mutedText}`}>
+          At least two offline or warning devices are needed to find a shared upstream device.
+        </p>
+      ) : candidates.length === 0 ? (
+        <p className={`text-sm text-center py-6 ${mutedText}`}>
+          No loaded upstream device is shared by the failing devices. Try loading parents for them.
+        </p>
+      ) : (
+        <ol className="space-y-1">
+          {candidates.map((candidate, index) => {
+            const node = nodes.find(n => n.id === candidate.id);
+            const status = node ? getStatus(node) : 'unknown';
+            return (
+              <li key={candidate.id}>
+                <button
+                  onClick={() => onFocusNode(candidate.id)}
+                  className={`w-full px-2 py-2 rounded-lg border text-left transition-colors duration-200 ${
+                    index < highlightCount ? topCardClasses : cardClasses
+                  }`}
+                >
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className={`w-5 text-xs font-semibold ${mutedText}`}>{index + 1}</span>
+                    <span className={`w-2 h-2 rounded-full flex-shrink-0 ${statusDotClasses[status] || statusDotClasses.unknown}`} />
+                    <span className="flex-1 min-w-0 truncate font-medium">{node?.label || candidate.id}</span>
+                  </div>
+                  <div className={`pl-7 text-xs mt-0.5 ${mutedText}`}>
+                    Covers {candidate.coveredIds.length} of {failingCount} failing
+                    {' · '}
+                    {candidate.coveredIds.length}/{candidate.descendantCount} descendants failing
+                  </div>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </CanvasSidebar>
+  );
+};
@@ -0,0 +1,53 @@
+import React from 'react';
+import { NO_ORGANIZATION_COLOR, OrganizationGroup } from '../../utils/organizations';
+
+interface OrganizationLegendProps {
+  groups: OrganizationGroup[];
+  // Canvas devices SL1 returned no organization for
+  unassignedCount: number;
+  onFitOrganization: (organizationId: string) => void;
+  theme?: 'light' | 'dark';
+}
+
+// Fixed key in the bottom-left corner of the canvas while nodes are colored by organization
+export const OrganizationLegend: React.FC<OrganizationLegendProps> = ({
+  groups,
+  unassignedCount,
+  onFitOrganization,
+  theme = 'light',
+}) => {
+  const themeClasses = theme === 'dark'
+    ? 'bg-gray-800/90 border-gray-600 text-gray-100'
+    : 'bg-white/90 border-gray-200 text-gray-800';
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-500';
+  const rowClass = `w-full flex items-center gap-2 px-2 py-1 rounded-md text-left text-xs transition-colors duration-200 ${
+    theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-gray-100'
+  }`;
+
+  return (
+    <div className={`absolute bottom-4 left-4 z-20 w-56 max-h-64 flex flex-col rounded-xl border shadow-xl backdrop-blur-sm animate-fade-in ${themeClasses}`}>
+      <h3 className={`px-3 pt-2 pb-1 text-xs font-semibold uppercase ${mutedText}`}>Organizations</h3>
+      <div className="flex-1 overflow-y-auto px-1 pb-2">
+        {groups.map(({ organization, color, count }) => (
+          <button
+            key={organization.id}
+            onClick={() => onFitOrganization(organization.id)}
+            className={rowClass}
+            title={`Show the ${organization.name} devices`}
+          >
+            <span className="w-3 h-3 rounded-sm flex-shrink-0" style={{ backgroundColor: color.swatch }} />
+            <span className="flex-1 min-w-0 truncate">{organization.name}</span>
+            <span className={mutedText}>{count}</span>
+          </button>
+        ))}
+        {unassignedCount > 0 && (
+          <div className={`flex items-center gap-2 px-2 py-1 text-xs ${mutedText}`}>
+            <span className="w-3 h-3 rounded-sm flex-shrink-0" style={{ backgroundColor: NO_ORGANIZATION_COLOR.swatch }} />
+            <span className="flex-1 min-w-0 truncate">No organization</span>
+            <span>{unassignedCount}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
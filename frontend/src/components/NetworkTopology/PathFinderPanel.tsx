@@ -0,0 +1,149 @@
+import React from 'react';
+import { TopologyEdge, TopologyNode } from '../../services/api';
+import { CanvasSidebar } from './CanvasSidebar';
+
+interface PathFinderPanelProps {
+  nodes: TopologyNode[];
+  edges: TopologyEdge[];
+  sourceId: string | null;
+  targetId: string | null;
+  directed: boolean;
+  path: string[] | null;
+  isExpanding?: boolean;
+  onDirectedChange: (directed: boolean) => void;
+  onSwap: () => void;
+  onReset: () => void;
+  onFocusNode: (nodeId: string) => void;
+  onExpandDepth?: () => void;
+  onClose: () => void;
+  theme?: 'light' | 'dark';
+}
+
+export const PathFinderPanel: React.FC<PathFinderPanelProps> = ({
+  nodes,
+  edges,
+  sourceId,
+  targetId,
+  directed,
+  path,
+  isExpanding = false,
+  onDirectedChange,
+  onSwap,
+  onReset,
+  onFocusNode,
+  onExpandDepth,
+  onClose,
+  theme = 'light',
+}) => {
+  const getNodeName = (nodeId: string) => nodes.find(n => n.id === nodeId)?.label || nodeId;
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-500';
+  const cardClasses = theme === 'dark'
+    ? 'bg-gray-700/60 border-gray-600 hover:bg-gray-700'
+    : 'bg-gray-50 border-gray-200 hover:bg-gray-100';
+  const secondaryButtonClass = `px-2 py-1 rounded-md text-xs font-medium transition-colors duration-200 ${
+    theme === 'dark'
+      ? 'bg-gray-700 hover:bg-gray-600 text-gray-100'
+      : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+  }`;
+
+  // Arrow between hops shows whether the relationship is traversed parent→child or child→parent
+  const getHopArrow = (fromId: string, toId: string) => {
+    if (edges.some(e => e.source === fromId && e.target === toId)) return '↓';
+    return '↑';
+  };
+
+  const renderEndpoint = (label: string, nodeId: string | null, hint: string) => (
+    <div className="flex items-center gap-2 text-sm">
+      <span className={`w-10 text-xs font-semibold uppercase ${mutedText}`}>{label}</span>
+      {nodeId ? (
+        <button
+          onClick={() => onFocusNode(nodeId)}
+          className="flex-1 min-w-0 text-left font-medium truncate hover:underline"
+          title={getNodeName(nodeId)}
+        >
+          {getNodeName(nodeId)}
+        </button>
+      ) : (
+        <span className={`flex-1 text-xs italic ${mutedText}`}>{hint}</span>
+      )}
+    </div>
+  );
+
+  return (
+    <CanvasSidebar
+      title="Find Path"
+      subtitle="Click two nodes, or search (Ctrl+K) and press Enter"
+      onClose={onClose}
+      theme={theme}
+    >
+      <div className="space-y-3">
+        {/* Endpoints */}
+        <div className="space-y-2">
+          {renderEndpoint('From', sourceId, 'Pick the first node...')}
+          {renderEndpoint('To', targetId, sourceId ? 'Pick the second node...' : '—')}
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <label className="flex items-center gap-2 text-xs cursor-pointer">
+            <input
+              type="checkbox"
+              checked={directed}
+              onChange={(e) => onDirectedChange(e.target.checked)}
+            />
+            Directed (parent → child only)
+          </label>
+          <div className="flex gap-1">
+            <button onClick={onSwap} disabled={!sourceId || !targetId} className={`${secondaryButtonClass} disabled:opacity-50`}>
+              Swap
+            </button>
+            <button onClick={onReset} className={secondaryButtonClass}>
+              Reset
+            </button>
+          </div>
+        </div>
+
+        {/* Result */}
+        {sourceId && targetId && (
+          path ? (
+            <div>
+              <div className={`text-xs mb-2 ${mutedText}`}>
+                {path.length - 1} hop{path.length - 1 !== 1 ? 's' : ''}
+              </div>
+              <ol className="space-y-1">
+                {path.map((nodeId, index) => (
+                  <li key={nodeId}>
+                    <button
+                      onClick={() => onFocusNode(nodeId)}
+                      className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-lg border text-left text-sm transition-colors duration-200 ${cardClasses}`}
+                    >
+                      <span className={`w-5 text-xs font-semibold ${mutedText}`}>{index + 1}</span>
+                      <span className="flex-1 min-w-0 truncate">{getNodeName(nodeId)}</span>
+                    </button>
+                    {index < path.length - 1 && (
+                      <div className={`pl-3 text-xs ${mutedText}`}>{getHopArrow(nodeId, path[index + 1])}</div>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ) : (
+            <div className={`p-3 rounded-lg border text-sm ${
+              theme === 'dark' ? 'bg-amber-900/30 border-amber-700 text-amber-200' : 'bg-amber-50 border-amber-200 text-amber-800'
+            }`}>
+              <p>No {directed ? 'directed ' : ''}path between these devices in the loaded topology.</p>
+              {onExpandDepth && (
+                <button
+                  onClick={onExpandDepth}
+                  disabled={isExpanding}
+                  className="mt-2 px-3 py-1.5 rounded-md bg-amber-600 hover:bg-amber-700 text-white text-xs font-medium transition-colors duration-200 disabled:opacity-50"
+                >
+                  {isExpanding ? 'Expanding...' : 'Expand depth from both ends'}
+                </button>
+              )}
+            </div>
+          )
+        )}
+      </div>
+    </CanvasSidebar>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { RelationshipType } from '../../services/api';
+import { RELATIONSHIP_STYLES, RELATIONSHIP_TYPES } from '../../utils/relationships';
+
+interface RelationshipFilterProps {
+  // Edge count per relationship type on the canvas
+  counts: Map<RelationshipType, number>;
+  hiddenTypes: Set<RelationshipType>;
+  onToggleType: (type: RelationshipType) => void;
+  theme?: 'light' | 'dark';
+}
+
+// Fixed row of relationship types along the bottom of the canvas - each chip shows or hides its edges
+export const RelationshipFilter: React.FC<RelationshipFilterProps> = ({
+  counts,
+  hiddenTypes,
+  onToggleType,
+  theme = 'light',
+}) => {
+  const themeClasses = theme === 'dark'
+    ? 'bg-gray-800/90 border-gray-600 text-gray-100'
+    : 'bg-white/90 border-gray-200 text-gray-800';
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-500';
+  const defaultEdgeColor = theme === 'dark' ? '#4b5563' : '#cbd5e0';
+
+  return (
+    <div className={`absolute bottom-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-1 px-2 py-1.5 rounded-xl border shadow-xl backdrop-blur-sm ${themeClasses}`}>
+      <span className={`px-1 text-xs font-semibold uppercase ${mutedText}`}>Links</span>
+      {RELATIONSHIP_TYPES.filter(type => counts.has(type)).map(type => {
+        const style = RELATIONSHIP_STYLES[type];
+        const isHidden = hiddenTypes.has(type);
+        return (
+          <button
+            key={type}
+            onClick={() => onToggleType(type)}
+            aria-pressed={!isHidden}
+            className={`flex items-center gap-1.5 px-2 py-1 rounded-md text-xs transition-colors duration-200 ${
+              theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-gray-100'
+            } ${isHidden ? 'opacity-40 line-through' : ''}`}
+            title={isHidden ? `Show ${style.label} links` : `Hide ${style.label} links`}
+          >
+            <svg width="20" height="6" aria-hidden="true">
+              <line
+                x1="0"
+                y1="3"
+                x2="20"
+                y2="3"
+                stroke={style.color || defaultEdgeColor}
+                strokeWidth={style.width}
+                strokeDasharray={style.dashes ? style.dashes.join(' ') : undefined}
+              />
+            </svg>
+            <span>{style.label}</span>
+            <span className={mutedText}>{counts.get(type)}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,12 +1,35 @@
-import React, { useEffect, useRef, useState } from 'react';
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
 import { Network } from 'vis-network/standalone';
 import { DataSet } from 'vis-data/standalone';
-import { Device, TopologyNode, TopologyEdge } from '../../services/api';
+import { Device, DeviceDetails, EventSeverity, RelationshipType, TopologyNode, TopologyEdge, apiService } from '../../services/api';
 import { DeviceRelationshipModal } from './DeviceRelationshipModal';
 import { DeletionConfirmationModal } from '../Modals/DeletionConfirmationModal';
 import { ZoomControls } from './ZoomControls';
+import { StatusRefreshIndicator } from './StatusRefreshIndicator';
+import { PathFinderPanel } from './PathFinderPanel';
+import { ImpactAnalysisPanel } from './ImpactAnalysisPanel';
+import { LikelyCausePanel } from './LikelyCausePanel';
+import { DeviceDetailsPanel } from './DeviceDetailsPanel';
+import { EventsPanel } from './EventsPanel';
+import { OrganizationLegend } from './OrganizationLegend';
+import { RelationshipFilter } from './RelationshipFilter';
+import { TopologyTable } from './TopologyTable';
 import { CanvasSearch, CanvasSearchRef } from './CanvasSearch';
 import { configService } from '../../services/config';
+import { useStatusRefresh } from '../../hooks/useStatusRefresh';
+import { CauseCandidate, computeCollapsedSubtrees, computeImpact, computeSeedOrigins, findShortestPath, getPathEdgeKeys, rankCommonAncestors } from '../../utils/graph';
+import { DATA_EXPORT_OPTIONS, DataExportFormat, ExportGraph } from '../../utils/graphExport';
+import { downloadFile, timestampedFilename } from '../../utils/download';
+import { getDeviceIcon, getStatusColor } from '../../utils/deviceStyle';
+import { DeviceEventSummary, SEVERITY_COLORS, severityRank, summarizeEvents } from '../../utils/events';
+import { NO_ORGANIZATION_COLOR, groupByOrganization } from '../../utils/organizations';
+import { DeviceQuery, QueryableDevice, matchesDeviceQuery, parseDeviceQuery } from '../../utils/deviceQuery';
+import { ClusterKind, ClusterRule, buildClusterRules, describeClusterRule, getClusterId, getClusterMembers, getClusterRuleFor, getWorstStatus } from '../../utils/clusters';
+import { RELATIONSHIP_STYLES, countRelationshipTypes, describeRelationship, getRelationshipType } from '../../utils/relationships';
+import { collectSvgScene } from '../../utils/svgExport';
+import { PdfIndexDevice, buildTopologyPdf } from '../../utils/pdfExport';
+import { simpleAuthService } from '../../services/simpleAuth';
+import { CanvasLayoutState } from '../../services/savedViews';
 import styles from './SimpleTopology.module.css';
 // Import vis-network CSS for navigation buttons
 import 'vis-network/dist/dist/vis-network.min.css';
@@ -26,23 +49,32 @@ interface SimpleVisNetworkTopologyProps {
   onAddDeviceToSelection?: (device: Device) => void;
   onSelectedNodeRemoval?: (selectedNodeIds: string[], confirmationChoice?: 'complete' | 'preserve' | 'cancel') => void | { needsConfirmation: true; affectedDevices: Device[] };
   onCanvasLockChange?: (locked: boolean) => void;
+  // Canvas layout to restore (e.g. from a saved view) - applied once when it changes
+  restoredCanvasState?: CanvasLayoutState | null;
+  onCanvasStateRestored?: () => void;
+  onCopyLink?: () => Promise<boolean>;
+  // Called just before a node move, layout, lock or subtree change so the app can record an undo step
+  onCanvasChange?: (action: string) => void;
+  // Undo/redo - labels of the steps on each stack, null when there is nothing to undo or redo
+  undoLabel?: string | null;
+  redoLabel?: string | null;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  // Fetch more topology around both path endpoints when no path is found
+  onExpandPathDepth?: (sourceId: string, targetId: string) => Promise<void>;
+  // Fetch deeper topology below a device so impact analysis sees its full subtree
+  onExpandImpactDepth?: (deviceId: string) => Promise<void>;
+  // Imported topology - read-only and never talks to the API (no status polling)
+  isOffline?: boolean;
+  // Name of the loaded saved view (or imported file), shown in the PDF title block
+  viewName?: string;
   className?: string;
   theme?: 'light' | 'dark';
 }
 
-const getDeviceIcon = (type: string): string => {
-  const lowerType = type?.toLowerCase() || '';
-  
-  if (lowerType.includes('router')) return '🔀';
-  if (lowerType.includes('switch')) return '🔌';
-  if (lowerType.includes('server')) return '🖥️';
-  if (lowerType.includes('firewall')) return '🛡️';
-  if (lowerType.includes('load')) return '⚖️';
-  if (lowerType.includes('storage')) return '💾';
-  if (lowerType.includes('database')) return '🗄️';
-  
-  return '📡';
-};
+export interface SimpleVisNetworkTopologyRef {
+  getCanvasLayoutState: () => CanvasLayoutState;
+}
 
 const getNodeStatus = (node: any): 'online' | 'offline' | 'warning' => {
   if (node.status === 'online' || node.state === '0') return 'online';
@@ -51,13 +83,41 @@ const getNodeStatus = (node: any): 'online' | 'offline' | 'warning' => {
   return 'online';
 };
 
-const getStatusColor = (status: string) => {
-  switch (status) {
-    case 'online': return '#6b7280';
-    case 'offline': return '#ef4444';
-    case 'warning': return '#f59e0b';
-    default: return '#6b7280';
+// Highlight color for find path endpoints, hops and edges
+const PATH_COLOR = '#8b5cf6';
+// Highlight color for the device under impact analysis
+const IMPACT_COLOR = '#dc2626';
+// Likely cause - how many candidates to list, and how many of those to highlight on the canvas
+const CAUSE_COLOR = '#f97316';
+const CAUSE_LIST_LIMIT = 10;
+const CAUSE_HIGHLIGHT_COUNT = 3;
+// Ring around the device that has keyboard focus
+const FOCUS_COLOR = '#0ea5e9';
+
+type ArrowKey = 'ArrowUp' | 'ArrowDown' | 'ArrowLeft' | 'ArrowRight';
+
+// Nearest node in an arrow key's direction. Sideways offset counts double so the pick stays close
+// to the line the arrow points along; nodes level with or behind the start are never picked.
+const findNearestInDirection = (
+  from: { x: number; y: number },
+  candidates: { id: string; x: number; y: number }[],
+  key: ArrowKey
+): string | null => {
+  let bestId: string | null = null;
+  let bestScore = Infinity;
+  for (const candidate of candidates) {
+    const dx = candidate.x - from.x;
+    const dy = candidate.y - from.y;
+    const along = key === 'ArrowRight' ? dx : key === 'ArrowLeft' ? -dx : key === 'ArrowDown' ? dy : -dy;
+    const across = key === 'ArrowRight' || key === 'ArrowLeft' ? Math.abs(dy) : Math.abs(dx);
+    if (along <= 0) continue;
+    const score = along + across * 2;
+    if (score < bestScore) {
+      bestId = candidate.id;
+      bestScore = score;
+    }
   }
+  return bestId;
 };
 
 const getThemeColors = (theme: 'light' | 'dark' = 'light') => {
@@ -88,19 +148,31 @@ const getThemeColors = (theme: 'light' | 'dark' = 'light') => {
   }
 };
 
-export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> = ({
+export const SimpleVisNetworkTopology = forwardRef<SimpleVisNetworkTopologyRef, SimpleVisNetworkTopologyProps>(({
   selectedDevices,
   topologyData,
   deviceDirections,
   deviceDepths,
-  globalDepth: _globalDepth,
+  globalDepth = 2,
   onDirectionChange,
   onDepthChange,
   onSelectedNodeRemoval,
   onCanvasLockChange,
+  restoredCanvasState,
+  onCanvasStateRestored,
+  onCopyLink,
+  onCanvasChange,
+  undoLabel = null,
+  redoLabel = null,
+  onUndo,
+  onRedo,
+  onExpandPathDepth,
+  onExpandImpactDepth,
+  isOffline = false,
+  viewName,
   className = '',
   theme = 'light',
-}) => {
+}, ref) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const networkRef = useRef<Network | null>(null);
   const nodesDataSetRef = useRef<DataSet<any> | null>(null);
@@ -109,6 +181,7 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
   const [forceRedraw, setForceRedraw] = useState(false);
   const [isLocked, setIsLocked] = useState(false); // Canvas lock state
   const [lockedNodes, setLockedNodes] = useState<Set<string>>(new Set()); // Individual node locks
+  const [collapsedNodes, setCollapsedNodes] = useState<Set<string>>(new Set()); // Nodes with their subtree hidden
   const [selectedNodeIds, setSelectedNodeIds] = useState<Set<string>>(new Set());
   const [isSelecting, setIsSelecting] = useState(false); // Drag selection state
   const [selectionBox, setSelectionBox] = useState<{ 
@@ -125,9 +198,14 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
     isVisible: false
   });
   const nodePositionCounter = useRef({ x: 100, y: 100 });
+  const appliedCanvasStateRef = useRef<CanvasLayoutState | null>(null);
+  // Levels from the last hierarchical layout - used as rank hints by the DOT export
+  const hierarchicalLevelsRef = useRef<Map<string, number> | null>(null);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
   
   // Search state
   const [isSearchVisible, setIsSearchVisible] = useState(false);
+  const [canvasSearchError, setCanvasSearchError] = useState<string | null>(null);
   const searchRef = useRef<CanvasSearchRef>(null);
   
   // Modal state
@@ -158,6 +236,300 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
     affectedDevices: [],
   });
 
+  // Expose current canvas layout so the app can persist it (saved views)
+  useImperativeHandle(ref, () => ({
+    getCanvasLayoutState: () => {
+      const network = networkRef.current;
+      return {
+        positions: network ? network.getPositions() : {},
+        lockedNodes: Array.from(lockedNodes),
+        collapsedNodes: Array.from(collapsedNodes),
+        layout,
+        viewport: network ? {
+          scale: network.getScale(),
+          position: network.getViewPosition(),
+        } : undefined,
+      };
+    },
+  }));
+
+  // Analysis sidebar - only one analysis panel is shown at a time
+  const [analysisPanel, setAnalysisPanel] = useState<'path' | 'impact' | 'cause' | 'details' | 'events' | null>(null);
+  const isPathMode = analysisPanel === 'path';
+
+  // Find path mode - endpoints are picked by clicking nodes or via canvas search
+  const [pathFinder, setPathFinder] = useState<{
+    sourceId: string | null;
+    targetId: string | null;
+    directed: boolean;
+  }>({
+    sourceId: null,
+    targetId: null,
+    directed: false,
+  });
+  const [pathResult, setPathResult] = useState<string[] | null>(null);
+  const [isExpandingPath, setIsExpandingPath] = useState(false);
+
+  // Impact analysis - devices that lose every path to a root if this device goes down
+  const [impactDeviceId, setImpactDeviceId] = useState<string | null>(null);
+  const [impactResult, setImpactResult] = useState<string[] | null>(null);
+  const [isExpandingImpact, setIsExpandingImpact] = useState(false);
+  const isImpactMode = analysisPanel === 'impact' && !!impactDeviceId;
+
+  // Likely cause - upstream devices shared by the offline/warning devices on the canvas
+  const [causeCandidates, setCauseCandidates] = useState<CauseCandidate[]>([]);
+  const [failingNodeCount, setFailingNodeCount] = useState(0);
+  const isCauseMode = analysisPanel === 'cause';
+
+  // Device details - full SL1 record fetched for one device at a time
+  const [detailsDeviceId, setDetailsDeviceId] = useState<string | null>(null);
+  const [deviceDetails, setDeviceDetails] = useState<DeviceDetails | null>(null);
+  const [isLoadingDetails, setIsLoadingDetails] = useState(false);
+  const [detailsError, setDetailsError] = useState<string | null>(null);
+  const [detailsRequestVersion, setDetailsRequestVersion] = useState(0);
+  const isDetailsMode = analysisPanel === 'details' && !!detailsDeviceId;
+
+  // Open SL1 events - severity badges on the nodes, reloaded with every live status poll
+  const [eventSummaries, setEventSummaries] = useState<Map<string, DeviceEventSummary>>(new Map());
+  const eventSummariesRef = useRef(eventSummaries);
+  eventSummariesRef.current = eventSummaries;
+  const eventsRequestRef = useRef(0);
+  const [eventsError, setEventsError] = useState<string | null>(null);
+  const [eventsMinSeverity, setEventsMinSeverity] = useState<EventSeverity | 'all'>('all');
+  const isEventsMode = analysisPanel === 'events';
+  // Devices below the severity filter are dimmed while the events panel is open.
+  // A string key keeps the data effect from rerunning on every poll when nothing changed.
+  const eventFilterMatchKey = isEventsMode && eventsMinSeverity !== 'all'
+    ? Array.from(eventSummaries.entries())
+        .filter(([, summary]) => severityRank(summary.highest) >= severityRank(eventsMinSeverity))
+        .map(([nodeId]) => nodeId)
+        .sort()
+        .join(',')
+    : null;
+
+  // Organization coloring - node backgrounds show which tenant owns each device
+  const [isOrganizationColoring, setIsOrganizationColoring] = useState(false);
+  const organizationGroups = groupByOrganization(topologyData?.nodes || []);
+  const organizationColorsById = new Map(organizationGroups.map(group => [group.organization.id, group.color]));
+  // Null while coloring is off, so callers fall back to their own background
+  const getOrganizationBackground = (node?: TopologyNode): string | null => {
+    if (!isOrganizationColoring || !node) return null;
+    const organization = node.organization;
+    const color = (organization && organizationColorsById.get(organization.id)) || NO_ORGANIZATION_COLOR;
+    return theme === 'dark' ? color.dark : color.light;
+  };
+  // Relationship types - edges are styled per SL1 relationship class and whole classes can be hidden
+  const [hiddenRelationshipTypes, setHiddenRelationshipTypes] = useState<Set<RelationshipType>>(new Set());
+  const relationshipCounts = countRelationshipTypes(topologyData?.edges || []);
+
+  // Collapsed subtrees - descendants left without a visible path from a root are hidden
+  const collapsedSubtrees = computeCollapsedSubtrees(
+    (topologyData?.nodes || []).map(node => node.id),
+    topologyData?.edges || [],
+    collapsedNodes
+  );
+  const hiddenCountsRef = useRef(collapsedSubtrees.hiddenCounts);
+  hiddenCountsRef.current = collapsedSubtrees.hiddenCounts;
+  // Lets the init effect's double-click handler expand collapsed subtrees
+  const expandSubtreeRef = useRef<((nodeId: string) => void) | null>(null);
+  // Keyboard navigation - the device with the focus ring, separate from the selection
+  const [focusedNodeId, setFocusedNodeId] = useState<string | null>(null);
+  const focusedNodeIdRef = useRef(focusedNodeId);
+  focusedNodeIdRef.current = focusedNodeId;
+  // Lets the init effect's keydown handler navigate with the current state
+  const navigationKeyRef = useRef<((event: KeyboardEvent) => boolean) | null>(null);
+
+  // Canvas or the accessible table view - the network stays mounted underneath the table
+  const [activeView, setActiveView] = useState<'canvas' | 'table'>('canvas');
+  const activeViewRef = useRef(activeView);
+  activeViewRef.current = activeView;
+  // Lets the init effect's drag and keyboard handlers record undo steps
+  const onCanvasChangeRef = useRef(onCanvasChange);
+  onCanvasChangeRef.current = onCanvasChange;
+
+  // Collapsed clusters - the rules outlive the vis-network clusters, which are rebuilt after every redraw
+  const [clusterRules, setClusterRules] = useState<ClusterRule[]>([]);
+  const clusterIdsRef = useRef<string[]>([]);
+  const clusteredNodeIdsRef = useRef<Set<string>>(new Set());
+  // Lets the init effect's double-click handler expand clusters with the current rules
+  const expandClusterRef = useRef<((clusterId: string) => void) | null>(null);
+  // Lets the init effect's click handler hand node clicks to the current mode
+  const nodeClickInterceptRef = useRef<((nodeId: string) => boolean) | null>(null);
+
+  // Live status from the auto-refresh poller - overrides the status in topologyData
+  const liveStatusesRef = useRef<Map<string, Device['status']>>(new Map());
+  // Bumped whenever polled statuses change so status-based analysis reruns
+  const [liveStatusVersion, setLiveStatusVersion] = useState(0);
+  const statusFlashesRef = useRef<Map<string, { timer: ReturnType<typeof setTimeout>; borderWidth: number; shadow: any }>>(new Map());
+
+  const statusRefresh = useStatusRefresh(
+    () => (nodesDataSetRef.current?.getIds() as string[]) || [],
+    (statuses) => {
+      applyStatusUpdates(statuses);
+      loadEvents();
+    },
+    !isOffline
+  );
+
+  const loadEvents = async () => {
+    const requestId = ++eventsRequestRef.current;
+    const deviceIds = (topologyData?.nodes || []).map(node => node.id);
+    if (isOffline || deviceIds.length === 0) {
+      setEventSummaries(new Map());
+      setEventsError(null);
+      return;
+    }
+
+    try {
+      const response = await apiService.getEvents(deviceIds);
+      // A newer request (e.g. after the topology changed) wins
+      if (requestId !== eventsRequestRef.current) return;
+      setEventSummaries(summarizeEvents(response.events));
+      setEventsError(null);
+    } catch (error) {
+      console.error('Failed to load events:', error);
+      if (requestId === eventsRequestRef.current) setEventsError('Could not load events from SL1.');
+    }
+  };
+
+  // Update only nodes whose status changed (positions untouched) and briefly flash them
+  const applyStatusUpdates = (statuses: { [deviceId: string]: Device['status'] }) => {
+    const nodesDataSet = nodesDataSetRef.current;
+    if (!nodesDataSet || !topologyData) return;
+
+    const nodeUpdates: any[] = [];
+    topologyData.nodes.forEach(node => {
+      const newStatus = statuses[node.id];
+      const existing = nodesDataSet.get(node.id) as any;
+      if (!newStatus || !existing) return;
+
+      const liveStatus = liveStatusesRef.current.get(node.id);
+      const previous = getNodeStatus(liveStatus ? { status: liveStatus } : node);
+      const next = getNodeStatus({ status: newStatus });
+      liveStatusesRef.current.set(node.id, newStatus);
+      if (previous === next) return;
+
+      // Locked and selected nodes keep their indicator border
+      const keepBorder = lockedNodes.has(node.id) || selectedNodeIds.has(node.id);
+      // Recoveries flash green even though online nodes use a neutral border
+      const flashColor = next === 'online' ? '#10b981' : getStatusColor(next);
+
+      const activeFlash = statusFlashesRef.current.get(node.id);
+      if (activeFlash) clearTimeout(activeFlash.timer);
+      const restore = activeFlash || { borderWidth: existing.borderWidth, shadow: existing.shadow };
+
+      nodeUpdates.push({
+        id: node.id,
+        color: { ...existing.color, border: keepBorder ? existing.color.border : getStatusColor(next) },
+        borderWidth: 6,
+        shadow: { enabled: true, color: flashColor, size: 30, x: 0, y: 0 },
+      });
+
+      const timer = setTimeout(() => {
+        statusFlashesRef.current.delete(node.id);
+        // update() would re-add a node that was removed while flashing
+        if (nodesDataSetRef.current?.get(node.id)) {
+          nodesDataSetRef.current.update({ id: node.id, borderWidth: restore.borderWidth, shadow: restore.shadow });
+        }
+      }, 1500);
+      statusFlashesRef.current.set(node.id, { ...restore, timer });
+    });
+
+    if (nodeUpdates.length > 0) {
+      nodesDataSet.update(nodeUpdates);
+      setLiveStatusVersion(version => version + 1);
+    }
+  };
+
+  // Release every cluster, moving its devices by however far the cluster node was dragged
+  const openClusters = () => {
+    const network = networkRef.current;
+    if (!network) return;
+    clusterIdsRef.current.forEach(clusterId => {
+      // Clusters vanish on their own when all of their devices leave the canvas
+      if (network.findNode(clusterId).length === 0 || !network.isCluster(clusterId)) return;
+      network.openCluster(clusterId, {
+        releaseFunction: (clusterPosition, positions) => {
+          const points = Object.values(positions);
+          const centerX = (Math.min(...points.map(p => p.x)) + Math.max(...points.map(p => p.x))) / 2;
+          const centerY = (Math.min(...points.map(p => p.y)) + Math.max(...points.map(p => p.y))) / 2;
+          const released: { [nodeId: string]: { x: number; y: number } } = {};
+          Object.entries(positions).forEach(([nodeId, position]) => {
+            released[nodeId] = {
+              x: position.x + clusterPosition.x - centerX,
+              y: position.y + clusterPosition.y - centerY,
+            };
+          });
+          return released;
+        },
+      });
+    });
+    clusterIdsRef.current = [];
+    clusteredNodeIdsRef.current = new Set();
+  };
+
+  // Rebuild the clusters from the current rules - a device only joins the first rule that matches it
+  const applyClusterRules = () => {
+    const network = networkRef.current;
+    const nodesDataSet = nodesDataSetRef.current;
+    if (!network || !nodesDataSet) return;
+    openClusters();
+    if (clusterRules.length === 0 || !topologyData) return;
+
+    const themeColors = getThemeColors(theme);
+    const nodesById = new Map(topologyData.nodes.map(node => [node.id, node]));
+    const clusteredNodeIds = new Set<string>();
+    const clusterIds: string[] = [];
+
+    clusterRules.forEach(rule => {
+      const memberIds = getClusterMembers(rule, topologyData.nodes, topologyData.edges)
+        .filter(nodeId => !clusteredNodeIds.has(nodeId) && !collapsedSubtrees.hiddenIds.has(nodeId) && nodesDataSet.get(nodeId));
+      if (memberIds.length < 2) return;
+
+      const members = new Set(memberIds);
+      const status = getWorstStatus(memberIds.map(nodeId => liveStatusesRef.current.get(nodeId) || nodesById.get(nodeId)!.status));
+      const icon = rule.kind === 'type' ? getDeviceIcon(rule.type) : rule.kind === 'subnet' ? '🌐' : '📦';
+      const clusterId = getClusterId(rule);
+
+      network.cluster({
+        joinCondition: (nodeOptions: any) => members.has(nodeOptions.id),
+        clusterNodeProperties: {
+          id: clusterId,
+          label: `${icon}\n${describeClusterRule(rule, topologyData.nodes)}\n${memberIds.length} devices · ${status}`,
+          shape: 'box',
+          shapeProperties: { borderRadius: 12, borderDashes: [6, 4] },
+          color: {
+            background: themeColors.highlightBackground,
+            border: getStatusColor(status),
+            highlight: { background: themeColors.highlightBackground, border: themeColors.highlightBorder },
+          },
+          borderWidth: 3,
+          font: {
+            size: 14,
+            face: 'Inter, system-ui, sans-serif',
+            color: themeColors.nodeText,
+            strokeWidth: 2,
+            strokeColor: themeColors.nodeStroke,
+          },
+          margin: { top: 10, right: 15, bottom: 10, left: 15 },
+          shadow: {
+            enabled: true,
+            color: theme === 'dark' ? 'rgba(0, 0, 0, 0.4)' : 'rgba(0, 0, 0, 0.2)',
+            size: 15,
+            x: 0,
+            y: 5,
+          },
+          widthConstraint: { minimum: 160, maximum: 220 },
+        } as any,
+      });
+      memberIds.forEach(nodeId => clusteredNodeIds.add(nodeId));
+      clusterIds.push(clusterId);
+    });
+
+    clusterIdsRef.current = clusterIds;
+    clusteredNodeIdsRef.current = clusteredNodeIds;
+  };
+
   // Initialize network once
   useEffect(() => {
     if (!containerRef.current || networkRef.current) return;
@@ -185,7 +557,8 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
         zoomView: true,
         dragNodes: true, // Allow manual dragging of nodes
         navigationButtons: false, // Disable built-in navigation buttons - we have custom ones
-        keyboard: true, // Enable keyboard shortcuts
+        // Keep the zoom keys (+/-, PgUp/PgDn) - arrow keys move the focus between devices instead of panning
+        keyboard: { enabled: true, speed: { x: 0, y: 0, zoom: 0.02 } },
         selectConnectedEdges: false, // Don't select edges when selecting nodes
         hideEdgesOnDrag: false, // Don't hide edges during drag
         hideNodesOnDrag: false, // Don't hide nodes during drag
@@ -213,11 +586,87 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
     const network = new Network(containerRef.current, data, options);
     networkRef.current = network;
 
+    // Open event badges - count in a circle colored by the highest severity, on the top-right corner
+    network.on('afterDrawing', (ctx: CanvasRenderingContext2D) => {
+      // Keyboard focus ring - drawn first so the badges stay on top of it
+      const focusedId = focusedNodeIdRef.current;
+      const focusedNode = focusedId ? nodesDataSet.get(focusedId) as any : null;
+      if (focusedId && focusedNode && !focusedNode.hidden && !clusteredNodeIdsRef.current.has(focusedId)) {
+        const box = network.getBoundingBox(focusedId);
+        ctx.beginPath();
+        ctx.roundRect(box.left - 6, box.top - 6, box.right - box.left + 12, box.bottom - box.top + 12, 10);
+        ctx.lineWidth = 3;
+        ctx.strokeStyle = FOCUS_COLOR;
+        ctx.stroke();
+      }
+
+      eventSummariesRef.current.forEach((summary, nodeId) => {
+        if (!nodesDataSet.get(nodeId) || clusteredNodeIdsRef.current.has(nodeId)) return;
+        const box = network.getBoundingBox(nodeId);
+        const label = summary.count > 99 ? '99+' : String(summary.count);
+
+        ctx.font = 'bold 11px Inter, system-ui, sans-serif';
+        const radius = Math.max(9, ctx.measureText(label).width / 2 + 5);
+        const x = box.right - 4;
+        const y = box.top + 4;
+
+        ctx.beginPath();
+        ctx.arc(x, y, radius, 0, 2 * Math.PI);
+        ctx.fillStyle = SEVERITY_COLORS[summary.highest];
+        ctx.fill();
+        ctx.lineWidth = 2;
+        ctx.strokeStyle = '#ffffff';
+        ctx.stroke();
+
+        ctx.fillStyle = '#ffffff';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(label, x, y);
+      });
+
+      // Collapsed subtree badges - "+N" hidden descendants in a pill below the node
+      hiddenCountsRef.current.forEach((count, nodeId) => {
+        if (!nodesDataSet.get(nodeId) || clusteredNodeIdsRef.current.has(nodeId)) return;
+        const box = network.getBoundingBox(nodeId);
+        const label = `+${count}`;
+
+        ctx.font = 'bold 11px Inter, system-ui, sans-serif';
+        const width = ctx.measureText(label).width + 12;
+        const height = 16;
+        const x = (box.left + box.right) / 2 - width / 2;
+        const y = box.bottom - height / 2;
+
+        ctx.beginPath();
+        ctx.roundRect(x, y, width, height, height / 2);
+        ctx.fillStyle = '#4f46e5';
+        ctx.fill();
+        ctx.lineWidth = 2;
+        ctx.strokeStyle = '#ffffff';
+        ctx.stroke();
+
+        ctx.fillStyle = '#ffffff';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(label, x + width / 2, y + height / 2);
+      });
+    });
+
+    // Name the relationship type on the hovered edge only, so labels don't clutter the canvas
+    // (cluster edges aren't in the data set and keep no label)
+    network.on('hoverEdge', (params) => {
+      const edge = edgesDataSetRef.current?.get(params.edge) as any;
+      if (edge) edgesDataSetRef.current?.update({ id: edge.id, label: edge.relationshipLabel });
+    });
+    network.on('blurEdge', (params) => {
+      if (edgesDataSetRef.current?.get(params.edge)) edgesDataSetRef.current.update({ id: params.edge, label: '' });
+    });
+
     // No stabilization needed - physics is always disabled
 
     // Listen for selection changes from vis-network
     network.on('select', (params) => {
-      const selectedNodes = new Set(params.nodes as string[]);
+      // Cluster nodes are not devices - they are expanded, never selected
+      const selectedNodes = new Set((params.nodes as string[]).filter(nodeId => !network.isCluster(nodeId)));
       // Only update if the selection actually changed
       if (selectedNodes.size !== selectedNodeIds.size || 
           !Array.from(selectedNodes).every(id => selectedNodeIds.has(id))) {
@@ -227,8 +676,12 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
 
     // Add click event listener for node clicks and selection
     network.on('click', (params) => {
+      // Mouse use hides the focus ring - the next arrow key starts from the selection again
+      setFocusedNodeId(null);
       if (params.nodes.length > 0) {
         const nodeId = params.nodes[0] as string;
+        if (network.isCluster(nodeId)) return;
+        if (nodeClickInterceptRef.current?.(nodeId)) return;
         const currentNode = nodesDataSetRef.current?.get(nodeId);
         const shiftPressed = params.event.srcEvent?.shiftKey;
         
@@ -269,8 +722,30 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
       }
     });
 
+    // Record the positions before a drag so the move can be undone (locked nodes don't move)
+    network.on('dragStart', (params) => {
+      const movableNodes = (params.nodes as string[]).filter(nodeId => !nodesDataSetRef.current?.get(nodeId)?.fixed);
+      if (movableNodes.length > 0) {
+        onCanvasChangeRef.current?.(movableNodes.length === 1 ? 'Move node' : 'Move nodes');
+      }
+    });
+
+    // Double-click a cluster node to expand it again
+    network.on('doubleClick', (params) => {
+      const nodeId = params.nodes[0] as string | undefined;
+      if (nodeId === undefined) return;
+      if (network.isCluster(nodeId)) {
+        expandClusterRef.current?.(nodeId);
+      } else {
+        expandSubtreeRef.current?.(nodeId);
+      }
+    });
+
     // Add keyboard event handler for shortcuts
     const handleKeyDown = (event: KeyboardEvent) => {
+      // The table view handles its own keys
+      if (activeViewRef.current === 'table') return;
+
       // Handle Escape key first (works in both search and normal modes)
       if (event.key === 'Escape') {
         if (isSearchVisible) {
@@ -295,12 +770,18 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
         // Don't process any other shortcuts when search is open
         return;
       }
+
+      // Arrow keys, Enter and P/C move between devices while the canvas has focus
+      if (navigationKeyRef.current?.(event)) {
+        return;
+      }
       
       // Ctrl+L or Cmd+L to lock/unlock selected nodes
       if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'l') {
         event.preventDefault();
         const selectedNodes = network.getSelectedNodes();
         if (selectedNodes.length > 0) {
+          onCanvasChangeRef.current?.('Toggle node locks');
           selectedNodes.forEach(nodeId => {
             toggleNodeLock(nodeId as string);
           });
@@ -384,6 +865,7 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
           
           if (allNodes) {
             allNodes.forEach(node => {
+              if (node.hidden || clusteredNodeIdsRef.current.has(node.id)) return;
               if (node.x !== undefined && node.y !== undefined) {
                 // Convert node position to DOM coordinates
                 const domPos = network.canvasToDOM({ x: node.x, y: node.y });
@@ -459,6 +941,22 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
     }
   }, [theme, isSearchVisible]);
 
+  // Restore locks and layout mode from a saved canvas state (positions are applied in the data effect)
+  useEffect(() => {
+    if (!restoredCanvasState) return;
+
+    setLockedNodes(new Set(restoredCanvasState.lockedNodes));
+    setCollapsedNodes(new Set(restoredCanvasState.collapsedNodes || []));
+    setLayout(restoredCanvasState.layout);
+    if (Object.keys(restoredCanvasState.positions).length === 0) {
+      // No stored positions (e.g. a shared link) - run the layout algorithm instead
+      setForceRedraw(true);
+    } else {
+      // Make sure a running physics layout doesn't move the restored positions
+      networkRef.current?.setOptions({ physics: { enabled: false } });
+    }
+  }, [restoredCanvasState]);
+
   // Handle data updates with static positioning
   useEffect(() => {
     if (!networkRef.current || !nodesDataSetRef.current || !edgesDataSetRef.current) return;
@@ -466,6 +964,9 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
     // Early safety check - if no topology data, just return
     if (!topologyData) return;
 
+    // Work on the plain devices - clusters are rebuilt from their rules at the end
+    openClusters();
+
     // If force redraw is requested (layout change), clear everything
     if (forceRedraw) {
       nodesDataSetRef.current.clear();
@@ -478,12 +979,14 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
     // Transform new data to vis-network format with static positioning
     const themeColors = getThemeColors(theme);
     const newVisNodes = (topologyData?.nodes || []).filter(node => node && node.id).map(node => {
-      const status = getNodeStatus(node);
+      const liveStatus = liveStatusesRef.current.get(node.id);
+      const status = getNodeStatus(liveStatus ? { status: liveStatus } : node);
       const icon = getDeviceIcon(node.type || '');
       const statusColor = getStatusColor(status);
       const direction = deviceDirections?.get(node.id) || 'children';
       const isLocked = lockedNodes.has(node.id);
       const isSelected = selectedNodeIds.has(node.id);
+      const organizationBackground = getOrganizationBackground(node);
       
       // Add direction indicator, lock indicator, and selection indicator to label
       const directionIcon = direction === 'parents' ? '↑' : 
@@ -500,7 +1003,7 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
         color: {
           background: isSelected 
             ? (theme === 'dark' ? '#312e81' : '#e0e7ff')  // Dark purple for dark theme, light blue for light theme
-            : themeColors.nodeBackground,
+            : organizationBackground || themeColors.nodeBackground,
           border: isLocked 
             ? '#ef4444' 
             : (isSelected 
@@ -510,7 +1013,7 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
           highlight: {
             background: isSelected 
               ? (theme === 'dark' ? '#3730a3' : '#c7d2fe') // Darker purple/blue based on theme
-              : themeColors.highlightBackground,
+              : organizationBackground || themeColors.highlightBackground,
             border: isLocked 
               ? '#dc2626' 
               : (isSelected 
@@ -522,6 +1025,8 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
         fixed: isLocked ? { x: true, y: true } : false, // Apply locked state
         borderWidth: isLocked ? 3 : 2, // Thicker border for locked nodes
         borderWidthSelected: isLocked ? 5 : 4, // Even thicker when selected
+        opacity: 1, // Lowered by the events severity filter
+        hidden: collapsedSubtrees.hiddenIds.has(node.id),
         shape: 'box',
         shapeProperties: {
           borderRadius: 12,
@@ -558,6 +1063,62 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
       };
     }) || [];
 
+    // Find path highlight - endpoints and hops get a violet border and glow
+    const pathNodeIds = new Set(isPathMode
+      ? [...(pathResult || []), pathFinder.sourceId, pathFinder.targetId].filter((id): id is string => !!id)
+      : []);
+    newVisNodes.forEach(visNode => {
+      if (!pathNodeIds.has(visNode.id)) return;
+      visNode.color = {
+        ...visNode.color,
+        border: PATH_COLOR,
+        highlight: { ...visNode.color.highlight, border: PATH_COLOR },
+      };
+      visNode.borderWidth = 4;
+      visNode.shadow = { enabled: true, color: 'rgba(139, 92, 246, 0.6)', size: 20, x: 0, y: 0 };
+    });
+
+    // Likely cause highlight - the top ranked upstream candidates get an orange border and glow
+    const topCauseIds = new Set(isCauseMode ? causeCandidates.slice(0, CAUSE_HIGHLIGHT_COUNT).map(c => c.id) : []);
+    newVisNodes.forEach(visNode => {
+      if (!topCauseIds.has(visNode.id)) return;
+      visNode.color = {
+        ...visNode.color,
+        border: CAUSE_COLOR,
+        highlight: { ...visNode.color.highlight, border: CAUSE_COLOR },
+      };
+      visNode.borderWidth = 5;
+      visNode.shadow = { enabled: true, color: 'rgba(249, 115, 22, 0.6)', size: 25, x: 0, y: 0 };
+    });
+
+    // Events severity filter - devices below the chosen severity fade into the background
+    if (eventFilterMatchKey !== null) {
+      const matchingIds = new Set(eventFilterMatchKey ? eventFilterMatchKey.split(',') : []);
+      newVisNodes.forEach(visNode => {
+        if (!matchingIds.has(visNode.id)) visNode.opacity = 0.25;
+      });
+    }
+
+    // Impact highlight - the analysed device gets a red border, impacted devices are shaded red
+    const impactedNodeIds = new Set(isImpactMode ? impactResult || [] : []);
+    newVisNodes.forEach(visNode => {
+      if (isImpactMode && visNode.id === impactDeviceId) {
+        visNode.color = {
+          ...visNode.color,
+          border: IMPACT_COLOR,
+          highlight: { ...visNode.color.highlight, border: IMPACT_COLOR },
+        };
+        visNode.borderWidth = 5;
+      } else if (impactedNodeIds.has(visNode.id)) {
+        const shade = theme === 'dark' ? '#7f1d1d' : '#fee2e2';
+        visNode.color = {
+          background: shade,
+          border: '#f87171',
+          highlight: { background: shade, border: IMPACT_COLOR },
+        };
+      }
+    });
+
     // Detect circular relationships for curved edges (only in hierarchical layout)
     const circularEdges = new Set<string>();
     if (layout === 'hierarchical') {
@@ -620,10 +1181,16 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
       detectedCircularEdges.forEach(edgeKey => circularEdges.add(edgeKey));
     }
 
+    // Several relationship types can link the same pair - later ones bow out so each stays visible
+    const pairEdgeCounts = new Map<string, number>();
     const newVisEdges = (topologyData?.edges || []).filter(edge => edge && edge.source && edge.target).map((edge, index) => {
       // Check if this edge is part of a circular relationship
       const edgeKey = `${edge.source}-${edge.target}`;
       const isCircular = circularEdges.has(edgeKey);
+      const pairIndex = pairEdgeCounts.get(edgeKey) || 0;
+      pairEdgeCounts.set(edgeKey, pairIndex + 1);
+      const relationshipType = getRelationshipType(edge);
+      const relationshipStyle = RELATIONSHIP_STYLES[relationshipType];
       
       return {
         id: `edge-${edge.source}-${edge.target}-${index}`,
@@ -637,13 +1204,29 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
           },
         },
         color: {
-          color: themeColors.edgeColor,
+          color: relationshipStyle.color || themeColors.edgeColor,
           highlight: themeColors.edgeHighlight,
           hover: themeColors.edgeHover,
         },
-        width: 2,
+        width: relationshipStyle.width,
+        dashes: relationshipStyle.dashes,
+        hidden: hiddenRelationshipTypes.has(relationshipType),
+        // Shown as the edge label while hovered
+        relationshipLabel: describeRelationship(edge),
+        font: {
+          size: 12,
+          face: 'Inter, system-ui, sans-serif',
+          color: themeColors.nodeText,
+          strokeWidth: 3,
+          strokeColor: themeColors.nodeStroke,
+          align: 'top',
+        },
         length: 200, // Minimum edge length
-        smooth: isCircular ? {
+        smooth: pairIndex > 0 ? {
+          enabled: true,
+          type: pairIndex % 2 === 1 ? 'curvedCW' : 'curvedCCW',
+          roundness: 0.2 * Math.ceil(pairIndex / 2),
+        } : isCircular ? {
           enabled: true,
           type: 'curvedCW', // Use curved clockwise for circular relationships
           roundness: 0.15,  // Subtle bow to separate circular relationships
@@ -655,6 +1238,24 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
       };
     }) || [];
 
+    const pathEdgeKeys = isPathMode && pathResult
+      ? getPathEdgeKeys(topologyData.edges, pathResult)
+      : new Set<string>();
+    newVisEdges.forEach(visEdge => {
+      if (!pathEdgeKeys.has(`${visEdge.from}-${visEdge.to}`)) return;
+      visEdge.color = { color: PATH_COLOR, highlight: PATH_COLOR, hover: PATH_COLOR };
+      visEdge.width = 4;
+    });
+
+    if (isImpactMode) {
+      // Edges that carry the outage down into the impacted devices
+      newVisEdges.forEach(visEdge => {
+        if (!impactedNodeIds.has(visEdge.to)) return;
+        if (visEdge.from !== impactDeviceId && !impactedNodeIds.has(visEdge.from)) return;
+        visEdge.color = { color: '#f87171', highlight: IMPACT_COLOR, hover: IMPACT_COLOR };
+      });
+    }
+
     // Get current positions from the network (includes manual drag positions)
     const currentPositions = new Map();
     const allCurrentNodeIds = nodesDataSetRef.current.getIds();
@@ -669,6 +1270,16 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
       }
     }
 
+    // Positions from a restored canvas state take precedence over current positions
+    const pendingRestore = restoredCanvasState && restoredCanvasState !== appliedCanvasStateRef.current
+      ? restoredCanvasState
+      : null;
+    if (pendingRestore) {
+      Object.entries(pendingRestore.positions).forEach(([nodeId, position]) => {
+        currentPositions.set(nodeId, { x: position.x, y: position.y });
+      });
+    }
+
     // Get current node and edge IDs
     const currentNodeIds = new Set(allCurrentNodeIds);
     const newNodeIds = new Set(newVisNodes.map(n => n.id));
@@ -727,19 +1338,119 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
 
     // Edges already handled above (cleared and rebuilt)
 
-  }, [topologyData, deviceDirections, forceRedraw, theme, selectedNodeIds, lockedNodes]);
+    if (pendingRestore) {
+      appliedCanvasStateRef.current = pendingRestore;
+      if (pendingRestore.viewport) {
+        networkRef.current.moveTo({
+          scale: pendingRestore.viewport.scale,
+          position: pendingRestore.viewport.position,
+        });
+      }
+      onCanvasStateRestored?.();
+    }
+
+    applyClusterRules();
+  }, [topologyData, deviceDirections, forceRedraw, theme, selectedNodeIds, lockedNodes, restoredCanvasState, isPathMode, pathFinder.sourceId, pathFinder.targetId, pathResult, isImpactMode, impactDeviceId, impactResult, isCauseMode, causeCandidates, eventFilterMatchKey, isOrganizationColoring, collapsedNodes, hiddenRelationshipTypes]);
+
+  // Recompute the shortest path whenever the endpoints, mode or loaded topology change
+  useEffect(() => {
+    if (!pathFinder.sourceId || !pathFinder.targetId || !topologyData) {
+      setPathResult(null);
+      return;
+    }
+    setPathResult(findShortestPath(topologyData.edges, pathFinder.sourceId, pathFinder.targetId, pathFinder.directed));
+  }, [pathFinder.sourceId, pathFinder.targetId, pathFinder.directed, topologyData]);
+
+  // Recompute the blast radius when the analysed device or the loaded topology changes
+  useEffect(() => {
+    if (!impactDeviceId || !topologyData) {
+      setImpactResult(null);
+      return;
+    }
+    setImpactResult(computeImpact(topologyData.nodes.map(n => n.id), topologyData.edges, impactDeviceId));
+  }, [impactDeviceId, topologyData]);
+
+  // Rank shared upstream devices for the failing nodes while the likely cause panel is open
+  useEffect(() => {
+    if (!isCauseMode || !topologyData) {
+      setCauseCandidates([]);
+      setFailingNodeCount(0);
+      return;
+    }
+    const failingIds = topologyData.nodes
+      .filter(node => {
+        const status = liveStatusesRef.current.get(node.id) || node.status;
+        return status === 'offline' || status === 'warning';
+      })
+      .map(node => node.id);
+    setFailingNodeCount(failingIds.length);
+    setCauseCandidates(rankCommonAncestors(topologyData.edges, failingIds).slice(0, CAUSE_LIST_LIMIT));
+  }, [isCauseMode, topologyData, liveStatusVersion]);
+
+  // Load the full device record whenever the details panel targets a new device (or retries)
+  useEffect(() => {
+    if (!isDetailsMode || !detailsDeviceId) {
+      setDeviceDetails(null);
+      setDetailsError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoadingDetails(true);
+    setDetailsError(null);
+    apiService.getDeviceDetails(detailsDeviceId)
+      .then(details => {
+        if (!cancelled) setDeviceDetails(details);
+      })
+      .catch(error => {
+        console.error('Failed to load device details:', error);
+        if (!cancelled) {
+          setDeviceDetails(null);
+          setDetailsError('Could not load device details from SL1.');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingDetails(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isDetailsMode, detailsDeviceId, detailsRequestVersion]);
+
+  // Load open events as soon as the canvas devices change, not just on the next poll
+  useEffect(() => {
+    loadEvents();
+  }, [topologyData, isOffline]);
+
+  // Badges are drawn in afterDrawing - repaint when the events change
+  useEffect(() => {
+    networkRef.current?.redraw();
+  }, [eventSummaries]);
+
+  // Collapse and expand as the rules change, and refresh the worst status after status polls
+  useEffect(() => {
+    applyClusterRules();
+  }, [clusterRules, liveStatusVersion]);
+
+  expandClusterRef.current = (clusterId: string) => {
+    setClusterRules(prev => prev.filter(rule => getClusterId(rule) !== clusterId));
+  };
 
   // Handle layout changes by enabling physics temporarily
   useEffect(() => {
     if (!networkRef.current || !forceRedraw) return;
 
+    // Lay out the individual devices, then collapse them again at their new positions
+    openClusters();
     
     if (layout === 'hierarchical') {
-      // Apply proper hierarchical layout using Sugiyama-style layered approach
-      const nodes = nodesDataSetRef.current?.get() as any[];
+      // Apply proper hierarchical layout using Sugiyama-style layered approach.
+      // Collapsed subtrees are left out so their siblings pack together without gaps.
+      const nodes = (nodesDataSetRef.current?.get() as any[])?.filter(node => !node.hidden);
       if (nodes && nodes.length > 0) {
         const selectedNodeIds = new Set(selectedDevices?.map(d => d.id) || []);
-        const edges = topologyData?.edges || [];
+        const visibleNodeIds = new Set(nodes.map(node => node.id));
+        const edges = (topologyData?.edges || []).filter(edge => visibleNodeIds.has(edge.source) && visibleNodeIds.has(edge.target));
         
         // Enhanced Circular Relationship Detection: Find Strongly Connected Components
         const findStronglyConnectedComponents = (edges: any[], nodeIds: string[]) => {
@@ -947,6 +1658,7 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
             nodeLevels.set(node.id, 0);
           }
         });
+        hierarchicalLevelsRef.current = nodeLevels;
         
         // Phase 3: Group nodes by hierarchical level
         const levelGroups = new Map<number, string[]>();
@@ -1162,7 +1874,7 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
       }, 3000);
     } else {
       // Grid layout - keep physics disabled, arrange in grid pattern
-      const nodes = nodesDataSetRef.current?.get() as any[];
+      const nodes = (nodesDataSetRef.current?.get() as any[])?.filter(node => !node.hidden);
       if (nodes && nodes.length > 0) {
         const gridSize = Math.ceil(Math.sqrt(nodes.length));
         const spacing = 400; // Much larger spacing to prevent overlap
@@ -1176,9 +1888,12 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
         nodesDataSetRef.current?.update(gridNodes);
       }
     }
+
+    applyClusterRules();
   }, [layout, forceRedraw]);
 
   const handleLayoutChange = (newLayout: typeof layout, selectedOnly: boolean = false) => {
+    onCanvasChange?.('Change layout');
     setLayout(newLayout);
     
     // Store selective layout preference for the effect
@@ -1671,6 +2386,7 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
   const toggleAllSelectedLock = () => {
     const selectedNodesArray = Array.from(selectedNodeIds);
     const lockedSelectedNodes = selectedNodesArray.filter(nodeId => lockedNodes.has(nodeId));
+    onCanvasChange?.(lockedSelectedNodes.length === selectedNodesArray.length ? 'Unlock nodes' : 'Lock nodes');
     
     // If all selected nodes are locked, unlock them all
     // Otherwise, lock all unselected nodes
@@ -1709,6 +2425,7 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
 
   const handleNodeLockToggle = () => {
     if (modalState.nodeId) {
+      onCanvasChange?.(lockedNodes.has(modalState.nodeId) ? 'Unlock node' : 'Lock node');
       toggleNodeLock(modalState.nodeId);
     }
   };
@@ -1718,8 +2435,167 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
       ...prev,
       isOpen: false,
     }));
+    // Hand focus back to the canvas so keyboard navigation carries on from the same device
+    if (focusedNodeId) {
+      containerRef.current?.focus();
+    }
+  };
+
+  // Devices keyboard navigation can land on - not hidden in a collapsed subtree or cluster
+  const getNavigableNodes = (): { id: string; x: number; y: number }[] => {
+    const network = networkRef.current;
+    const nodeIds = nodesDataSetRef.current?.get({ filter: node => !node.hidden })
+      .map(node => node.id as string)
+      .filter(nodeId => !clusteredNodeIdsRef.current.has(nodeId));
+    if (!network || !nodeIds) return [];
+    const positions = network.getPositions(nodeIds);
+    return nodeIds.filter(nodeId => positions[nodeId]).map(nodeId => ({ id: nodeId, ...positions[nodeId] }));
+  };
+
+  // Move the focus ring, panning when the device is off screen or close to the edge
+  const moveKeyboardFocus = (nodeId: string) => {
+    setFocusedNodeId(nodeId);
+    const network = networkRef.current;
+    const container = containerRef.current;
+    if (!network || !container) return;
+
+    const position = network.getPositions([nodeId])[nodeId];
+    if (!position) return;
+    const domPosition = network.canvasToDOM(position);
+    const margin = 60;
+    if (domPosition.x < margin || domPosition.y < margin ||
+        domPosition.x > container.clientWidth - margin || domPosition.y > container.clientHeight - margin) {
+      network.moveTo({ position, animation: { duration: 300, easingFunction: 'easeInOutQuad' } });
+    }
+  };
+
+  // Same menu as Shift+click, opened at the device
+  const openNodeModal = (nodeId: string) => {
+    const network = networkRef.current;
+    const currentNode = nodesDataSetRef.current?.get(nodeId) as any;
+    if (!network || !currentNode || !containerRef.current) return;
+
+    const containerRect = containerRef.current.getBoundingClientRect();
+    const canvasPosition = network.canvasToDOM(network.getPositions([nodeId])[nodeId]);
+    setModalState({
+      isOpen: true,
+      position: {
+        x: containerRect.left + canvasPosition.x,
+        y: containerRect.top + canvasPosition.y,
+      },
+      nodeId,
+      nodeName: currentNode.nodeData?.name || nodeId,
+      nodeType: currentNode.nodeData?.type,
+    });
+  };
+
+  // Returns true when the key was used for navigation
+  navigationKeyRef.current = (event: KeyboardEvent) => {
+    const network = networkRef.current;
+    if (!network || !containerRef.current?.contains(document.activeElement)) return false;
+    if (event.ctrlKey || event.metaKey || event.altKey || isSearchVisible || modalState.isOpen) return false;
+
+    const key = event.key;
+    const letter = key.toLowerCase();
+    const isArrow = key === 'ArrowUp' || key === 'ArrowDown' || key === 'ArrowLeft' || key === 'ArrowRight';
+    if (!isArrow && key !== 'Enter' && letter !== 'p' && letter !== 'c') return false;
+
+    const nodes = getNavigableNodes();
+    if (nodes.length === 0) return false;
+    event.preventDefault();
+
+    const current = nodes.find(node => node.id === focusedNodeId);
+    const distanceTo = (node: { x: number; y: number }, from: { x: number; y: number }) =>
+      Math.hypot(node.x - from.x, node.y - from.y);
+
+    if (!current) {
+      // First key press focuses the selected device, or the one nearest the middle of the view
+      const viewCenter = network.getViewPosition();
+      const start = nodes.find(node => selectedNodeIds.has(node.id))
+        || nodes.reduce((nearest, node) => (distanceTo(node, viewCenter) < distanceTo(nearest, viewCenter) ? node : nearest));
+      moveKeyboardFocus(start.id);
+      return true;
+    }
+
+    if (isArrow) {
+      const nextId = findNearestInDirection(current, nodes.filter(node => node.id !== current.id), key as ArrowKey);
+      if (nextId) moveKeyboardFocus(nextId);
+    } else if (key === 'Enter') {
+      openNodeModal(current.id);
+    } else {
+      // P = parent, C = child; the nearest one on the canvas when there are several
+      const linkedIds = new Set((topologyData?.edges || [])
+        .filter(edge => (letter === 'p' ? edge.target : edge.source) === current.id)
+        .map(edge => (letter === 'p' ? edge.source : edge.target)));
+      const next = nodes
+        .filter(node => node.id !== current.id && linkedIds.has(node.id))
+        .sort((a, b) => distanceTo(a, current) - distanceTo(b, current))[0];
+      if (next) moveKeyboardFocus(next.id);
+    }
+    return true;
+  };
+
+  // The focus ring is drawn in afterDrawing
+  useEffect(() => {
+    networkRef.current?.redraw();
+  }, [focusedNodeId]);
+
+  // vis-network's zoom keys listen on the window - keep them out of the canvas search and the
+  // table's filter input
+  useEffect(() => {
+    networkRef.current?.setOptions({
+      interaction: {
+        keyboard: {
+          enabled: activeView === 'canvas' && !isSearchVisible
+        }
+      }
+    });
+  }, [activeView, isSearchVisible]);
+
+  const switchView = (view: 'canvas' | 'table') => {
+    setActiveView(view);
+    setModalState(prev => ({ ...prev, isOpen: false }));
   };
 
+  // Tabs follow the ARIA pattern - arrow keys move between them, only the active one is a tab stop
+  const handleViewTabKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight') return;
+    event.preventDefault();
+    const nextView = activeView === 'canvas' ? 'table' : 'canvas';
+    switchView(nextView);
+    document.getElementById(`topology-tab-${nextView}`)?.focus();
+  };
+
+  // Table row selection mirrors a click on the canvas and centers the device behind the table
+  const handleTableSelect = (nodeId: string, additive: boolean) => {
+    const newSelection = new Set(additive ? selectedNodeIds : []);
+    if (additive && newSelection.has(nodeId)) {
+      newSelection.delete(nodeId);
+    } else {
+      newSelection.add(nodeId);
+    }
+    setSelectedNodeIds(newSelection);
+
+    // Devices hidden in a collapsed subtree or cluster aren't on the canvas to select or center
+    const navigableIds = new Set(getNavigableNodes().map(node => node.id));
+    syncSelectionWithNetwork(new Set(Array.from(newSelection).filter(id => navigableIds.has(id))));
+    if (newSelection.has(nodeId) && navigableIds.has(nodeId)) {
+      focusNode(nodeId);
+    }
+  };
+
+  // Back to the canvas with the device selected, centered and keyboard-focused
+  const handleShowOnCanvas = (nodeId: string) => {
+    handleTableSelect(nodeId, false);
+    switchView('canvas');
+    if (getNavigableNodes().some(node => node.id === nodeId)) {
+      setFocusedNodeId(nodeId);
+      containerRef.current?.focus();
+    }
+  };
+
+  const focusedNode = topologyData?.nodes.find(node => node.id === focusedNodeId && !collapsedSubtrees.hiddenIds.has(node.id));
+
   // Synchronize our custom selection with vis-network's internal selection
   const syncSelectionWithNetwork = (nodeIds: Set<string>) => {
     if (networkRef.current) {
@@ -1733,9 +2609,10 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
 
   // Selection management functions
   const selectAllNodes = () => {
-    const allNodeIds = nodesDataSetRef.current?.getIds() as string[];
+    const allNodeIds = nodesDataSetRef.current?.get({ filter: node => !node.hidden }).map(node => node.id as string);
     if (allNodeIds) {
-      const newSelection = new Set(allNodeIds);
+      // Devices inside a collapsed cluster or subtree are hidden and stay unselected
+      const newSelection = new Set(allNodeIds.filter(nodeId => !clusteredNodeIdsRef.current.has(nodeId)));
       setSelectedNodeIds(newSelection);
       syncSelectionWithNetwork(newSelection);
     }
@@ -1790,54 +2667,343 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
   };
 
   // Search functionality
-  const handleOpenSearch = () => {
-    setIsSearchVisible(true);
-    
-    // Disable vis-network keyboard shortcuts when search is open
-    if (networkRef.current) {
-      networkRef.current.setOptions({
-        interaction: {
-          keyboard: {
-            enabled: false
-          }
+  const togglePathMode = () => {
+    setAnalysisPanel(prev => (prev === 'path' ? null : 'path'));
+    setPathFinder(prev => ({ ...prev, sourceId: null, targetId: null }));
+  };
+
+  // First pick sets the source, second the target; picking again starts a new path
+  const pickPathEndpoint = (nodeId: string) => {
+    setPathFinder(prev => {
+      if (!prev.sourceId || prev.targetId) {
+        return { ...prev, sourceId: nodeId, targetId: null };
+      }
+      if (nodeId === prev.sourceId) return prev;
+      return { ...prev, targetId: nodeId };
+    });
+  };
+
+  nodeClickInterceptRef.current = isPathMode
+    ? (nodeId: string) => {
+        pickPathEndpoint(nodeId);
+        return true;
+      }
+    : isDetailsMode
+    ? (nodeId: string) => {
+        // Details follow the clicked node; the click still selects it as usual
+        setDetailsDeviceId(nodeId);
+        return false;
+      }
+    : null;
+
+  const focusNode = (nodeId: string) => {
+    networkRef.current?.focus(nodeId, {
+      scale: Math.max(networkRef.current.getScale(), 1),
+      animation: { duration: 500, easingFunction: 'easeInOutQuad' },
+    });
+  };
+
+  const handleExpandPathDepth = async () => {
+    if (!onExpandPathDepth || !pathFinder.sourceId || !pathFinder.targetId) return;
+    setIsExpandingPath(true);
+    try {
+      await onExpandPathDepth(pathFinder.sourceId, pathFinder.targetId);
+    } finally {
+      setIsExpandingPath(false);
+    }
+  };
+
+  const toggleCauseMode = () => {
+    setAnalysisPanel(prev => (prev === 'cause' ? null : 'cause'));
+  };
+
+  const handleImpactAnalysis = () => {
+    setImpactDeviceId(modalState.nodeId);
+    setAnalysisPanel('impact');
+  };
+
+  const toggleEventsMode = () => {
+    setAnalysisPanel(prev => (prev === 'events' ? null : 'events'));
+  };
+
+  const toggleOrganizationColoring = () => {
+    setIsOrganizationColoring(prev => !prev);
+  };
+
+  // Zoom to one tenant's devices from the organization legend
+  const fitOrganization = (organizationId: string) => {
+    const nodeIds = (topologyData?.nodes || [])
+      .filter(node => node.organization?.id === organizationId)
+      .map(node => node.id);
+    if (nodeIds.length === 0) return;
+    networkRef.current?.fit({
+      nodes: nodeIds,
+      animation: { duration: 500, easingFunction: 'easeInOutQuad' },
+    });
+  };
+
+  // Append rules that are not active yet - earlier rules keep the devices they already collapsed
+  const addClusterRules = (rules: ClusterRule[]) => {
+    setClusterRules(prev => {
+      const activeIds = new Set(prev.map(getClusterId));
+      const added = rules.filter(rule => !activeIds.has(getClusterId(rule)));
+      return added.length > 0 ? [...prev, ...added] : prev;
+    });
+  };
+
+  const clusterAllBy = (kind: 'type' | 'subnet') => {
+    const rules = buildClusterRules(kind, topologyData?.nodes || []);
+    if (rules.length === 0) {
+      alert(kind === 'type'
+        ? 'No device type has more than one device on the canvas.'
+        : 'No /24 subnet has more than one device on the canvas.');
+      return;
+    }
+    addClusterRules(rules);
+  };
+
+  const expandAllClusters = () => {
+    setClusterRules([]);
+  };
+
+  // Collapse options for the device in the context menu - only groups with something to collapse
+  const getCollapseOptions = (nodeId: string): { kind: ClusterKind; label: string }[] => {
+    const node = topologyData?.nodes.find(n => n.id === nodeId);
+    if (!node || !topologyData) return [];
+    return (['type', 'subnet', 'children'] as ClusterKind[]).flatMap(kind => {
+      const rule = getClusterRuleFor(kind, node);
+      if (!rule || getClusterMembers(rule, topologyData.nodes, topologyData.edges).length < 2) return [];
+      const label = kind === 'type'
+        ? `Collapse all ${node.type || 'unknown type'} devices`
+        : kind === 'subnet'
+        ? `Collapse ${describeClusterRule(rule, topologyData.nodes)}`
+        : 'Collapse children';
+      return [{ kind, label }];
+    });
+  };
+
+  const handleCollapse = (kind: ClusterKind) => {
+    const node = topologyData?.nodes.find(n => n.id === modalState.nodeId);
+    const rule = node && getClusterRuleFor(kind, node);
+    if (rule) addClusterRules([rule]);
+  };
+
+  // Hide or show everything below a device; the hierarchical layout re-packs around the change
+  const toggleSubtreeCollapse = (nodeId: string) => {
+    onCanvasChange?.(collapsedNodes.has(nodeId) ? 'Expand subtree' : 'Collapse subtree');
+    setCollapsedNodes(prev => {
+      const next = new Set(prev);
+      if (next.has(nodeId)) {
+        next.delete(nodeId);
+      } else {
+        next.add(nodeId);
+      }
+      return next;
+    });
+    if (layout === 'hierarchical') {
+      setForceRedraw(true);
+    }
+  };
+
+  expandSubtreeRef.current = (nodeId: string) => {
+    if (collapsedNodes.has(nodeId)) toggleSubtreeCollapse(nodeId);
+  };
+
+  const toggleRelationshipType = (type: RelationshipType) => {
+    setHiddenRelationshipTypes(prev => {
+      const next = new Set(prev);
+      if (next.has(type)) {
+        next.delete(type);
+      } else {
+        next.add(type);
+      }
+      return next;
+    });
+  };
+
+  const handleShowDetails = () => {
+    setDetailsDeviceId(modalState.nodeId);
+    setAnalysisPanel('details');
+  };
+
+  const closeDeviceDetails = () => {
+    setAnalysisPanel(null);
+    setDetailsDeviceId(null);
+  };
+
+  const closeImpactAnalysis = () => {
+    setAnalysisPanel(null);
+    setImpactDeviceId(null);
+  };
+
+  // Topology with current canvas positions and live statuses, for the data exporters
+  const getExportGraph = (): ExportGraph => {
+    const positions = networkRef.current?.getPositions() || {};
+    return {
+      nodes: (topologyData?.nodes || []).map(node => ({
+        ...node,
+        status: liveStatusesRef.current.get(node.id) || node.status,
+        x: positions[node.id]?.x ?? 0,
+        y: positions[node.id]?.y ?? 0,
+      })),
+      edges: topologyData?.edges || [],
+      levels: layout === 'hierarchical' ? hierarchicalLevelsRef.current || undefined : undefined,
+      seedOrigins: computeSeedOrigins(
+        topologyData?.edges || [],
+        (selectedDevices || []).map(device => ({
+          id: device.id,
+          direction: deviceDirections?.get(device.id) || 'children',
+        }))
+      ),
+    };
+  };
+
+  const handleDataExport = (format: DataExportFormat) => {
+    const option = DATA_EXPORT_OPTIONS.find(o => o.format === format);
+    if (!option) return;
+
+    let graph = getExportGraph();
+    if (option.respectsSelection && selectedNodeIds.size > 0) {
+      graph = {
+        ...graph,
+        nodes: graph.nodes.filter(node => selectedNodeIds.has(node.id)),
+        edges: graph.edges.filter(edge => selectedNodeIds.has(edge.source) && selectedNodeIds.has(edge.target)),
+      };
+    }
+
+    option.serialize(graph).forEach(file => {
+      const prefix = file.suffix ? `topology-${file.suffix}` : 'topology';
+      downloadFile(file.content, timestampedFilename(prefix, option.extension), option.mimeType);
+    });
+  };
+
+  // Printable PDF pack - tiles, title block with seeds/depth and a device index
+  const handleExportPdf = async () => {
+    const network = networkRef.current;
+    if (!network || !topologyData?.nodes.length) return;
+
+    setIsExportingPdf(true);
+    try {
+      const seeds = (selectedDevices || []).map(device => ({
+        name: device.name || device.id,
+        direction: deviceDirections?.get(device.id) || 'children',
+        depth: deviceDepths?.get(device.id) || globalDepth,
+      }));
+      const depths = seeds.map(seed => seed.depth);
+      const minDepth = depths.length ? Math.min(...depths) : globalDepth;
+      const maxDepth = depths.length ? Math.max(...depths) : globalDepth;
+
+      // Devices in a collapsed subtree or cluster are indexed at the node drawn in their place
+      const nodesById = new Map(topologyData.nodes.map(node => [node.id, node]));
+      const getShownAs = (nodeId: string): PdfIndexDevice['shownAs'] => {
+        const ownerId = collapsedSubtrees.hiddenBy.get(nodeId);
+        const notes = ownerId ? [`collapsed under ${nodesById.get(ownerId)?.label || ownerId}`] : [];
+        const drawnId = ownerId || nodeId;
+        if (!clusteredNodeIdsRef.current.has(drawnId)) return ownerId ? { id: ownerId, note: notes[0] } : undefined;
+
+        const clusterId = String(network.findNode(drawnId)[0]);
+        const rule = clusterRules.find(candidate => getClusterId(candidate) === clusterId);
+        notes.push(`in cluster ${rule ? describeClusterRule(rule, topologyData.nodes) : clusterId}`);
+        return { id: clusterId, note: notes.join(', ') };
+      };
+
+      const pdf = await buildTopologyPdf(
+        collectSvgScene(network),
+        topologyData.nodes.map(node => ({
+          id: node.id,
+          name: node.label || node.id,
+          type: node.type,
+          ip: node.ip,
+          shownAs: getShownAs(node.id),
+        })),
+        {
+          title: viewName || 'Network Topology',
+          seeds: seeds.map(seed => `${seed.name} (${seed.direction}, depth ${seed.depth})`),
+          depth: minDepth === maxDepth ? String(minDepth) : `${minDepth}-${maxDepth} (varies per seed)`,
+          user: simpleAuthService.getUser()?.username,
+          generatedAt: new Date(),
+          edgeCount: topologyData.edges.length,
         }
-      });
+      );
+      downloadFile(pdf, timestampedFilename('topology', 'pdf'), 'application/pdf');
+    } catch (error) {
+      console.error('PDF export failed:', error);
+      alert('PDF export failed. Try PNG or SVG export instead.');
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
+  const handleExpandImpactDepth = async () => {
+    if (!onExpandImpactDepth || !impactDeviceId) return;
+    setIsExpandingImpact(true);
+    try {
+      await onExpandImpactDepth(impactDeviceId);
+    } finally {
+      setIsExpandingImpact(false);
+    }
+  };
+
+  // Canvas nodes in the shape the structured search matches on, with live status
+  const toQueryableDevice = (node: TopologyNode): QueryableDevice => ({
+    id: node.id,
+    name: node.label || node.id,
+    type: node.type || 'Unknown',
+    status: liveStatusesRef.current.get(node.id) || node.status,
+    ip: node.ip || '',
+    organization: node.organization,
+  });
+
+  // Parses the canvas search, reporting syntax errors inline - undefined when it doesn't parse
+  const parseCanvasSearch = (searchTerm: string): DeviceQuery | null | undefined => {
+    try {
+      const query = parseDeviceQuery(searchTerm);
+      setCanvasSearchError(null);
+      return query;
+    } catch (error) {
+      setCanvasSearchError((error as Error).message);
+      return undefined;
+    }
+  };
+
+  // Enter in canvas search picks the first match as a path endpoint
+  const handleCanvasSearchSubmit = (searchTerm: string) => {
+    if (!isPathMode) return;
+
+    const query = parseCanvasSearch(searchTerm);
+    if (!query) return;
+    const match = (topologyData?.nodes || []).find(node => matchesDeviceQuery(query, toQueryableDevice(node)));
+    if (match) {
+      pickPathEndpoint(match.id);
+      searchRef.current?.clear();
     }
   };
 
+  // vis-network keyboard shortcuts follow isSearchVisible (see the keyboard effect above)
+  const handleOpenSearch = () => {
+    setIsSearchVisible(true);
+  };
+
   const handleCloseSearch = () => {
     setIsSearchVisible(false);
+    setCanvasSearchError(null);
     clearSearchHighlight();
     searchRef.current?.clear();
-    
-    // Re-enable vis-network keyboard shortcuts when search is closed
-    if (networkRef.current) {
-      networkRef.current.setOptions({
-        interaction: {
-          keyboard: {
-            enabled: true
-          }
-        }
-      });
-    }
   };
 
   const handleCanvasSearch = (searchTerm: string) => {
     
     if (!nodesDataSetRef.current || !networkRef.current) return;
     
-    const allNodes = nodesDataSetRef.current.get();
-    const matchingNodeIds: string[] = [];
+    // Keep the last highlight while the query is mid-edit and doesn't parse
+    const query = parseCanvasSearch(searchTerm);
+    if (query === undefined) return;
     
-    allNodes.forEach((node: any) => {
-      const nodeName = `${node.label || ''} ${node.nodeData?.name || ''}`.toLowerCase();
-      
-      if (searchTerm.toLowerCase() === '' || nodeName.includes(searchTerm.toLowerCase())) {
-        matchingNodeIds.push(node.id);
-      }
-    });
+    const matchingNodeIds = (topologyData?.nodes || [])
+      .filter(node => matchesDeviceQuery(query, toQueryableDevice(node)))
+      .map(node => node.id);
     
-    applySearchHighlight(matchingNodeIds, searchTerm !== '');
+    applySearchHighlight(matchingNodeIds, query !== null);
     
     // Removed auto-fit behavior - users can manually zoom/pan as needed
     // This allows normal canvas zoom/pan controls to work without interference
@@ -1910,18 +3076,20 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
     
     const allNodes = nodesDataSetRef.current.get();
     const themeColors = getThemeColors(theme);
+    const topologyNodesById = new Map((topologyData?.nodes || []).map(n => [n.id, n]));
     
     const updates = allNodes.map((node: any) => {
       // Instead of using stored original styles, regenerate current theme styles
       const isLocked = lockedNodes.has(node.id);
       const isSelected = selectedNodeIds.has(node.id);
+      const organizationBackground = getOrganizationBackground(topologyNodesById.get(node.id));
       
       return {
         id: node.id,
         color: {
           background: isSelected 
             ? (theme === 'dark' ? '#312e81' : '#e0e7ff') 
-            : themeColors.nodeBackground,
+            : organizationBackground || themeColors.nodeBackground,
           border: isLocked 
             ? '#ef4444' 
             : isSelected 
@@ -1930,7 +3098,7 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
           highlight: {
             background: isSelected 
               ? (theme === 'dark' ? '#3730a3' : '#c7d2fe') 
-              : themeColors.highlightBackground,
+              : organizationBackground || themeColors.highlightBackground,
             border: isLocked 
               ? '#dc2626' 
               : isSelected 
@@ -1968,20 +3136,123 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
           onLayoutChange={handleLayoutChange}
           isLocked={isLocked}
           onToggleLock={toggleCanvasLock}
+          undoLabel={undoLabel}
+          redoLabel={redoLabel}
+          onUndo={onUndo}
+          onRedo={onRedo}
           selectedCount={getSelectedNodesCount()}
           onSelectAll={selectAllNodes}
-          onClearSelection={removeSelectedNodes}
+          onClearSelection={onSelectedNodeRemoval ? removeSelectedNodes : undefined}
           onLockAllSelected={toggleAllSelectedLock}
           selectedLockState={getSelectedLockState()}
           onOpenSearch={handleOpenSearch}
+          isPathMode={isPathMode}
+          onTogglePathMode={togglePathMode}
+          isCauseMode={isCauseMode}
+          onToggleCauseMode={toggleCauseMode}
+          isEventsMode={isEventsMode}
+          onToggleEventsMode={isOffline ? undefined : toggleEventsMode}
+          isOrganizationColoring={isOrganizationColoring}
+          onToggleOrganizationColoring={organizationGroups.length > 0 ? toggleOrganizationColoring : undefined}
+          clusterCount={clusterRules.length}
+          onClusterBy={topologyData?.nodes.length ? clusterAllBy : undefined}
+          onExpandAllClusters={expandAllClusters}
+          onCopyLink={onCopyLink}
+          onExportData={topologyData?.nodes.length ? handleDataExport : undefined}
+          onExportPdf={topologyData?.nodes.length ? handleExportPdf : undefined}
+          isExportingPdf={isExportingPdf}
         />
       </div>
+
+      {/* Organization legend */}
+      {isOrganizationColoring && organizationGroups.length > 0 && (
+        <OrganizationLegend
+          groups={organizationGroups}
+          unassignedCount={(topologyData?.nodes || []).filter(node => !node.organization).length}
+          onFitOrganization={fitOrganization}
+          theme={theme}
+        />
+      )}
+
+      {/* Relationship type filter - only once SL1 relationship types are known */}
+      {Array.from(relationshipCounts.keys()).some(type => type !== 'other') && (
+        <RelationshipFilter
+          counts={relationshipCounts}
+          hiddenTypes={hiddenRelationshipTypes}
+          onToggleType={toggleRelationshipType}
+          theme={theme}
+        />
+      )}
+
+      {/* Live status refresh */}
+      {!isOffline && (
+        <StatusRefreshIndicator
+          isPaused={statusRefresh.isPaused}
+          isRefreshing={statusRefresh.isRefreshing}
+          lastUpdated={statusRefresh.lastUpdated}
+          error={statusRefresh.error}
+          refreshInterval={statusRefresh.refreshInterval}
+          onTogglePaused={statusRefresh.togglePaused}
+          theme={theme}
+        />
+      )}
       
+      {/* Canvas / Table view tabs */}
+      <div
+        role="tablist"
+        aria-label="Topology view"
+        className={`absolute top-4 left-1/2 -translate-x-1/2 z-[70] flex gap-1 p-1 rounded-xl border shadow-xl backdrop-blur-sm ${
+          theme === 'dark' ? 'bg-gray-800/90 border-gray-600' : 'bg-white/90 border-gray-200'
+        }`}
+      >
+        {(['canvas', 'table'] as const).map(view => (
+          <button
+            key={view}
+            id={`topology-tab-${view}`}
+            role="tab"
+            aria-selected={activeView === view}
+            aria-controls={`topology-panel-${view}`}
+            tabIndex={activeView === view ? 0 : -1}
+            onClick={() => switchView(view)}
+            onKeyDown={handleViewTabKeyDown}
+            className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors duration-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-sky-500 ${
+              activeView === view
+                ? 'bg-indigo-600 text-white'
+                : theme === 'dark' ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            {view === 'canvas' ? 'Canvas' : 'Table'}
+          </button>
+        ))}
+      </div>
+
+      {activeView === 'table' && (
+        <TopologyTable
+          id="topology-panel-table"
+          labelledBy="topology-tab-table"
+          nodes={topologyData?.nodes || []}
+          edges={topologyData?.edges || []}
+          selectedIds={selectedNodeIds}
+          getStatus={(node) => liveStatusesRef.current.get(node.id) || node.status}
+          onSelectNode={handleTableSelect}
+          onShowOnCanvas={handleShowOnCanvas}
+          theme={theme}
+        />
+      )}
+
       <div 
         ref={containerRef} 
+        id="topology-panel-canvas"
         className={`${styles.visContainer} ${isLocked ? styles.locked : ''}`}
+        role="application"
+        aria-label="Network topology. Arrow keys move between devices, Enter opens device actions, P and C jump to a parent or child."
       />
 
+      {/* Announces the keyboard-focused device to screen readers */}
+      <div className="sr-only" aria-live="polite">
+        {focusedNode ? `${focusedNode.label}, ${focusedNode.type || 'unknown type'}, ${focusedNode.status}` : ''}
+      </div>
+
       {/* Selection Rectangle Overlay */}
       {selectionBox.isVisible && (
         <div
@@ -2011,9 +3282,20 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
         currentDepth={deviceDepths?.get(modalState.nodeId) || 1}
         maxDepth={configService.getTopologyConfig().controls.maxDepth}
         isNodeLocked={lockedNodes.has(modalState.nodeId)}
-        onDirectionSelect={handleDirectionSelect}
+        onDirectionSelect={onDirectionChange ? handleDirectionSelect : undefined}
         onDepthChange={onDepthChange ? handleDeviceDepthChange : undefined}
         onLockToggle={handleNodeLockToggle}
+        onImpactAnalysis={handleImpactAnalysis}
+        onShowDetails={isOffline ? undefined : handleShowDetails}
+        isSubtreeCollapsed={collapsedNodes.has(modalState.nodeId)}
+        hiddenDescendantCount={collapsedSubtrees.hiddenCounts.get(modalState.nodeId) || 0}
+        onToggleSubtree={
+          collapsedNodes.has(modalState.nodeId) || topologyData?.edges.some(edge => edge.source === modalState.nodeId)
+            ? () => toggleSubtreeCollapse(modalState.nodeId)
+            : undefined
+        }
+        collapseOptions={modalState.isOpen ? getCollapseOptions(modalState.nodeId) : []}
+        onCollapse={handleCollapse}
         onClose={handleModalClose}
       />
 
@@ -2032,8 +3314,90 @@ export const SimpleVisNetworkTopology: React.FC<SimpleVisNetworkTopologyProps> =
         isVisible={isSearchVisible}
         theme={theme}
         onSearch={handleCanvasSearch}
+        onSubmit={handleCanvasSearchSubmit}
+        placeholder={isPathMode ? 'Search, then Enter to pick path node...' : undefined}
+        error={canvasSearchError}
         onClose={handleCloseSearch}
       />
+
+      {/* Find Path */}
+      {isPathMode && (
+        <PathFinderPanel
+          nodes={topologyData?.nodes || []}
+          edges={topologyData?.edges || []}
+          sourceId={pathFinder.sourceId}
+          targetId={pathFinder.targetId}
+          directed={pathFinder.directed}
+          path={pathResult}
+          isExpanding={isExpandingPath}
+          onDirectedChange={(directed) => setPathFinder(prev => ({ ...prev, directed }))}
+          onSwap={() => setPathFinder(prev => ({ ...prev, sourceId: prev.targetId, targetId: prev.sourceId }))}
+          onReset={() => setPathFinder(prev => ({ ...prev, sourceId: null, targetId: null }))}
+          onFocusNode={focusNode}
+          onExpandDepth={onExpandPathDepth ? handleExpandPathDepth : undefined}
+          onClose={togglePathMode}
+          theme={theme}
+        />
+      )}
+
+      {/* Impact Analysis */}
+      {isImpactMode && (
+        <ImpactAnalysisPanel
+          deviceId={impactDeviceId!}
+          nodes={topologyData?.nodes || []}
+          impactedIds={impactResult || []}
+          getStatus={(node) => liveStatusesRef.current.get(node.id) || node.status}
+          isExpanding={isExpandingImpact}
+          onFocusNode={focusNode}
+          onExpandDepth={onExpandImpactDepth ? handleExpandImpactDepth : undefined}
+          onClose={closeImpactAnalysis}
+          theme={theme}
+        />
+      )}
+
+      {/* Device Details */}
+      {isDetailsMode && (
+        <DeviceDetailsPanel
+          deviceName={topologyData?.nodes.find(n => n.id === detailsDeviceId)?.label || detailsDeviceId!}
+          details={deviceDetails}
+          isLoading={isLoadingDetails}
+          error={detailsError}
+          events={eventSummaries.get(detailsDeviceId!)?.events || []}
+          canvasNodeIds={new Set((topologyData?.nodes || []).map(n => n.id))}
+          onFocusNode={focusNode}
+          onRetry={() => setDetailsRequestVersion(v => v + 1)}
+          onClose={closeDeviceDetails}
+          theme={theme}
+        />
+      )}
+
+      {/* Open Events */}
+      {isEventsMode && (
+        <EventsPanel
+          nodes={topologyData?.nodes || []}
+          summaries={eventSummaries}
+          minSeverity={eventsMinSeverity}
+          error={eventsError}
+          onMinSeverityChange={setEventsMinSeverity}
+          onFocusNode={focusNode}
+          onClose={toggleEventsMode}
+          theme={theme}
+        />
+      )}
+
+      {/* Likely Cause */}
+      {isCauseMode && (
+        <LikelyCausePanel
+          nodes={topologyData?.nodes || []}
+          candidates={causeCandidates}
+          failingCount={failingNodeCount}
+          highlightCount={CAUSE_HIGHLIGHT_COUNT}
+          getStatus={(node) => liveStatusesRef.current.get(node.id) || node.status}
+          onFocusNode={focusNode}
+          onClose={toggleCauseMode}
+          theme={theme}
+        />
+      )}
     </div>
   );
-};
\ No newline at end of file
+});
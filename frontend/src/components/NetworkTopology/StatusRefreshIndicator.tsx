@@ -0,0 +1,61 @@
+import React from 'react';
+
+interface StatusRefreshIndicatorProps {
+  isPaused: boolean;
+  isRefreshing: boolean;
+  lastUpdated: Date | null;
+  error: string | null;
+  refreshInterval: number;
+  onTogglePaused: () => void;
+  theme?: 'light' | 'dark';
+}
+
+export const StatusRefreshIndicator: React.FC<StatusRefreshIndicatorProps> = ({
+  isPaused,
+  isRefreshing,
+  lastUpdated,
+  error,
+  refreshInterval,
+  onTogglePaused,
+  theme = 'light',
+}) => {
+  const themeClasses = theme === 'dark'
+    ? 'bg-gray-800/90 border-gray-600 text-gray-200'
+    : 'bg-white/90 border-gray-200 text-gray-600';
+
+  const dotClass = error
+    ? 'bg-red-500'
+    : isPaused
+    ? 'bg-gray-400'
+    : `bg-green-500 ${isRefreshing ? 'animate-pulse' : ''}`;
+
+  const intervalLabel = refreshInterval >= 60000
+    ? `${Math.round(refreshInterval / 60000)}m`
+    : `${Math.round(refreshInterval / 1000)}s`;
+
+  return (
+    <div className="absolute bottom-4 right-4 z-20">
+      <div className={`flex items-center gap-2 px-3 py-2 rounded-xl border shadow-xl backdrop-blur-sm text-xs ${themeClasses}`}>
+        <span className={`w-2 h-2 rounded-full ${dotClass}`} />
+        <span title={error || `Status refreshes every ${intervalLabel}`}>
+          {error
+            ? error
+            : lastUpdated
+            ? `Status updated ${lastUpdated.toLocaleTimeString()}`
+            : isPaused ? 'Live status paused' : 'Loading status...'}
+        </span>
+        <button
+          onClick={onTogglePaused}
+          className={`px-2 py-0.5 rounded-md font-medium transition-colors duration-200 ${
+            theme === 'dark'
+              ? 'bg-gray-700 hover:bg-gray-600 text-gray-100'
+              : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+          }`}
+          title={isPaused ? 'Resume live status refresh' : 'Pause live status refresh'}
+        >
+          {isPaused ? 'Resume' : 'Pause'}
+        </button>
+      </div>
+    </div>
+  );
+};
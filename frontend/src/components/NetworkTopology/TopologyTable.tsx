@@ -0,0 +1,283 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TopologyEdge, TopologyNode } from '../../services/api';
+import { DEVICE_QUERY_HELP, DeviceQuery, matchesDeviceQuery, parseDeviceQuery } from '../../utils/deviceQuery';
+import { statusDotClasses } from './CanvasSidebar';
+
+interface TopologyTableProps {
+  // Element IDs for the tab that labels this panel
+  id: string;
+  labelledBy: string;
+  nodes: TopologyNode[];
+  edges: TopologyEdge[];
+  selectedIds: Set<string>;
+  getStatus: (node: TopologyNode) => TopologyNode['status'];
+  // additive = Ctrl/Cmd held, toggling the row instead of replacing the selection
+  onSelectNode: (nodeId: string, additive: boolean) => void;
+  // Enter or double-click - back to the canvas with the device centered
+  onShowOnCanvas: (nodeId: string) => void;
+  theme?: 'light' | 'dark';
+}
+
+type SortColumn = 'name' | 'type' | 'status' | 'parents' | 'children';
+
+interface TableRow {
+  node: TopologyNode;
+  status: TopologyNode['status'];
+  parents: TopologyNode[];
+  children: TopologyNode[];
+}
+
+const COLUMNS: { column: SortColumn; label: string }[] = [
+  { column: 'name', label: 'Device' },
+  { column: 'type', label: 'Type' },
+  { column: 'status', label: 'Status' },
+  { column: 'parents', label: 'Parents' },
+  { column: 'children', label: 'Children' },
+];
+
+// Worst first, as in the likely cause ranking
+const STATUS_ORDER: TopologyNode['status'][] = ['offline', 'warning', 'unknown', 'online'];
+
+const compareRows = (a: TableRow, b: TableRow, column: SortColumn): number => {
+  switch (column) {
+    case 'name': return (a.node.label || a.node.id).localeCompare(b.node.label || b.node.id);
+    case 'type': return (a.node.type || '').localeCompare(b.node.type || '');
+    case 'status': return STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status);
+    case 'parents': return a.parents.length - b.parents.length;
+    case 'children': return a.children.length - b.children.length;
+  }
+};
+
+const describeNeighbours = (nodes: TopologyNode[]): string =>
+  nodes.length === 0 ? 'None' : nodes.map(node => node.label || node.id).join(', ');
+
+// Adjacency table of the canvas devices - an ARIA grid with one focusable row at a time.
+// Arrow keys, Home and End move between rows, Space selects, Enter shows the device on the canvas.
+export const TopologyTable: React.FC<TopologyTableProps> = ({
+  id,
+  labelledBy,
+  nodes,
+  edges,
+  selectedIds,
+  getStatus,
+  onSelectNode,
+  onShowOnCanvas,
+  theme = 'light',
+}) => {
+  const [filter, setFilter] = useState('');
+  const [sort, setSort] = useState<{ column: SortColumn; ascending: boolean }>({ column: 'name', ascending: true });
+  const [activeRowId, setActiveRowId] = useState<string | null>(null);
+  const rowRefs = useRef<Map<string, HTMLTableRowElement>>(new Map());
+
+  let query: DeviceQuery | null = null;
+  let filterError: string | null = null;
+  try {
+    query = parseDeviceQuery(filter);
+  } catch (error) {
+    filterError = (error as Error).message;
+  }
+
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  // Several relationship types can link the same pair - each neighbour is listed once
+  const parentIds = new Map<string, Set<string>>();
+  const childIds = new Map<string, Set<string>>();
+  edges.forEach(edge => {
+    if (edge.source === edge.target) return;
+    if (!parentIds.has(edge.target)) parentIds.set(edge.target, new Set());
+    if (!childIds.has(edge.source)) childIds.set(edge.source, new Set());
+    parentIds.get(edge.target)!.add(edge.source);
+    childIds.get(edge.source)!.add(edge.target);
+  });
+  const toNodes = (ids: Set<string> | undefined) => Array.from(ids || [])
+    .map(nodeId => nodesById.get(nodeId))
+    .filter((node): node is TopologyNode => !!node);
+  const allRows: TableRow[] = nodes.map(node => ({
+    node,
+    status: getStatus(node),
+    parents: toNodes(parentIds.get(node.id)),
+    children: toNodes(childIds.get(node.id)),
+  }));
+
+  const rows = allRows
+    .filter(row => filterError || matchesDeviceQuery(query, {
+      id: row.node.id,
+      name: row.node.label || row.node.id,
+      type: row.node.type || 'Unknown',
+      status: row.status,
+      ip: row.node.ip || '',
+      organization: row.node.organization,
+    }))
+    .sort((a, b) => (sort.ascending ? 1 : -1) * compareRows(a, b, sort.column));
+
+  // The roving tab stop follows the first selected row, then the first row
+  const tabStopId = rows.some(row => row.node.id === activeRowId)
+    ? activeRowId
+    : rows.find(row => selectedIds.has(row.node.id))?.node.id || rows[0]?.node.id;
+
+  // Bring the canvas selection into view when the table opens
+  useEffect(() => {
+    if (tabStopId) rowRefs.current.get(tabStopId)?.scrollIntoView({ block: 'nearest' });
+  }, []);
+
+  const focusRow = (nodeId: string) => {
+    setActiveRowId(nodeId);
+    rowRefs.current.get(nodeId)?.focus();
+  };
+
+  const handleSort = (column: SortColumn) => {
+    setSort(prev => ({ column, ascending: prev.column === column ? !prev.ascending : true }));
+  };
+
+  const handleRowKeyDown = (event: React.KeyboardEvent, index: number) => {
+    const nodeId = rows[index].node.id;
+    const moveTo = (target: number) => {
+      event.preventDefault();
+      const row = rows[Math.max(0, Math.min(rows.length - 1, target))];
+      if (row) focusRow(row.node.id);
+    };
+
+    switch (event.key) {
+      case 'ArrowDown': moveTo(index + 1); break;
+      case 'ArrowUp': moveTo(index - 1); break;
+      case 'Home': moveTo(0); break;
+      case 'End': moveTo(rows.length - 1); break;
+      case 'PageDown': moveTo(index + 10); break;
+      case 'PageUp': moveTo(index - 10); break;
+      case ' ':
+        event.preventDefault();
+        onSelectNode(nodeId, event.ctrlKey || event.metaKey);
+        break;
+      case 'Enter':
+        event.preventDefault();
+        onShowOnCanvas(nodeId);
+        break;
+    }
+  };
+
+  const themeClasses = theme === 'dark'
+    ? 'bg-gray-800 border-gray-600 text-gray-100'
+    : 'bg-white border-gray-200 text-gray-800';
+  const mutedText = theme === 'dark' ? 'text-gray-400' : 'text-gray-500';
+  const borderClass = theme === 'dark' ? 'border-gray-700' : 'border-gray-100';
+  const inputClasses = theme === 'dark'
+    ? 'bg-gray-700 border-gray-600 text-gray-100 placeholder-gray-400 focus:border-purple-400'
+    : 'bg-white border-gray-300 text-gray-700 placeholder-gray-500 focus:border-blue-400';
+
+  return (
+    <div
+      id={id}
+      role="tabpanel"
+      aria-labelledby={labelledBy}
+      className={`absolute inset-0 z-[60] flex flex-col rounded-2xl border pt-16 ${themeClasses}`}
+    >
+      {/* Filter */}
+      <div className={`flex items-center gap-3 px-4 pb-3 border-b ${borderClass}`}>
+        <label htmlFor={`${id}-filter`} className="text-sm font-semibold">Filter</label>
+        <input
+          id={`${id}-filter`}
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="e.g. type:switch status:offline"
+          title={DEVICE_QUERY_HELP}
+          aria-invalid={!!filterError}
+          aria-describedby={`${id}-filter-status`}
+          className={`flex-1 max-w-md px-3 py-1.5 rounded-lg border text-sm outline-none ${inputClasses}`}
+        />
+        <span id={`${id}-filter-status`} role="status" className={`text-xs ${filterError ? 'text-red-500' : mutedText}`}>
+          {filterError || `${rows.length} of ${allRows.length} devices`}
+        </span>
+      </div>
+
+      {/* Adjacency table */}
+      <div className="flex-1 overflow-auto">
+        <table
+          role="grid"
+          aria-labelledby={labelledBy}
+          aria-multiselectable="true"
+          aria-rowcount={rows.length + 1}
+          className="w-full text-sm border-collapse"
+        >
+          <thead className={`sticky top-0 ${theme === 'dark' ? 'bg-gray-800' : 'bg-white'}`}>
+            <tr role="row" aria-rowindex={1}>
+              {COLUMNS.map(({ column, label }) => (
+                <th
+                  key={column}
+                  role="columnheader"
+                  scope="col"
+                  aria-sort={sort.column === column ? (sort.ascending ? 'ascending' : 'descending') : 'none'}
+                  className={`px-4 py-2 text-left font-semibold border-b ${borderClass}`}
+                >
+                  <button
+                    onClick={() => handleSort(column)}
+                    className="flex items-center gap-1 rounded hover:underline focus:outline-none focus-visible:ring-2 focus-visible:ring-sky-500"
+                  >
+                    {label}
+                    <span aria-hidden="true" className={mutedText}>
+                      {sort.column === column ? (sort.ascending ? '▲' : '▼') : '↕'}
+                    </span>
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => {
+              const { node } = row;
+              const isSelected = selectedIds.has(node.id);
+              return (
+                <tr
+                  key={node.id}
+                  ref={(element) => {
+                    if (element) {
+                      rowRefs.current.set(node.id, element);
+                    } else {
+                      rowRefs.current.delete(node.id);
+                    }
+                  }}
+                  role="row"
+                  aria-rowindex={index + 2}
+                  aria-selected={isSelected}
+                  tabIndex={node.id === tabStopId ? 0 : -1}
+                  onClick={(e) => {
+                    setActiveRowId(node.id);
+                    onSelectNode(node.id, e.ctrlKey || e.metaKey);
+                  }}
+                  onDoubleClick={() => onShowOnCanvas(node.id)}
+                  onFocus={() => setActiveRowId(node.id)}
+                  onKeyDown={(e) => handleRowKeyDown(e, index)}
+                  className={`cursor-pointer border-b ${borderClass} outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-sky-500 ${
+                    isSelected
+                      ? (theme === 'dark' ? 'bg-indigo-900/50' : 'bg-indigo-50')
+                      : (theme === 'dark' ? 'hover:bg-gray-700/60' : 'hover:bg-gray-50')
+                  }`}
+                >
+                  <td role="gridcell" className="px-4 py-2">
+                    <div className="font-medium">{node.label || node.id}</div>
+                    {node.ip && <div className={`text-xs ${mutedText}`}>{node.ip}</div>}
+                  </td>
+                  <td role="gridcell" className="px-4 py-2">{node.type || 'Unknown'}</td>
+                  <td role="gridcell" className="px-4 py-2">
+                    <span className="flex items-center gap-2">
+                      <span className={`w-2 h-2 rounded-full flex-shrink-0 ${statusDotClasses[row.status]}`} aria-hidden="true" />
+                      <span className="capitalize">{row.status}</span>
+                    </span>
+                  </td>
+                  <td role="gridcell" className="px-4 py-2 max-w-xs truncate" title={describeNeighbours(row.parents)}>
+                    {describeNeighbours(row.parents)}
+                  </td>
+                  <td role="gridcell" className="px-4 py-2 max-w-xs truncate" title={describeNeighbours(row.children)}>
+                    {describeNeighbours(row.children)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {rows.length === 0 && (
+          <p className={`px-4 py-6 text-sm text-center ${mutedText}`}>No devices match the filter.</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,7 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Network } from 'vis-network/standalone';
+import { DATA_EXPORT_OPTIONS, DataExportFormat } from '../../utils/graphExport';
+import { collectSvgScene, renderTopologySvg } from '../../utils/svgExport';
 
 interface ZoomControlsProps {
   networkRef: React.RefObject<Network | null>;
@@ -10,6 +12,11 @@ interface ZoomControlsProps {
   // Lock controls
   isLocked?: boolean;
   onToggleLock?: () => void;
+  // Undo/redo - labels of the next steps, null when the stack is empty
+  undoLabel?: string | null;
+  redoLabel?: string | null;
+  onUndo?: () => void;
+  onRedo?: () => void;
   // Selection controls
   selectedCount?: number;
   onSelectAll?: () => void;
@@ -18,6 +25,27 @@ interface ZoomControlsProps {
   selectedLockState?: 'none' | 'partial' | 'all';
   // Search controls
   onOpenSearch?: () => void;
+  // Analysis controls
+  isPathMode?: boolean;
+  onTogglePathMode?: () => void;
+  isCauseMode?: boolean;
+  onToggleCauseMode?: () => void;
+  isEventsMode?: boolean;
+  onToggleEventsMode?: () => void;
+  // Organization (tenant) coloring
+  isOrganizationColoring?: boolean;
+  onToggleOrganizationColoring?: () => void;
+  // Collapse devices into clusters by type or /24 subnet
+  clusterCount?: number;
+  onClusterBy?: (kind: 'type' | 'subnet') => void;
+  onExpandAllClusters?: () => void;
+  // Share controls - resolves to whether the link reached the clipboard
+  onCopyLink?: () => Promise<boolean>;
+  // Data exports (GraphML, GEXF, ...) - built from topology data, not the rendered canvas
+  onExportData?: (format: DataExportFormat) => void;
+  // Multi-page PDF pack for printing
+  onExportPdf?: () => void;
+  isExportingPdf?: boolean;
 }
 
 export const ZoomControls: React.FC<ZoomControlsProps> = ({ 
@@ -27,14 +55,38 @@ export const ZoomControls: React.FC<ZoomControlsProps> = ({
   onLayoutChange,
   isLocked = false,
   onToggleLock,
+  undoLabel = null,
+  redoLabel = null,
+  onUndo,
+  onRedo,
   selectedCount = 0,
   onSelectAll,
   onClearSelection,
   onLockAllSelected,
   selectedLockState = 'none',
-  onOpenSearch
+  onOpenSearch,
+  isPathMode = false,
+  onTogglePathMode,
+  isCauseMode = false,
+  onToggleCauseMode,
+  isEventsMode = false,
+  onToggleEventsMode,
+  isOrganizationColoring = false,
+  onToggleOrganizationColoring,
+  clusterCount = 0,
+  onClusterBy,
+  onExpandAllClusters,
+  onCopyLink,
+  onExportData,
+  onExportPdf,
+  isExportingPdf = false
 }) => {
-  
+  const [copyLinkStatus, setCopyLinkStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+  // Export menus open beside their button, one at a time
+  const [openExportMenu, setOpenExportMenu] = useState<'svg' | 'data' | null>(null);
+  const [svgTitle, setSvgTitle] = useState('');
+  const [svgIncludeLegend, setSvgIncludeLegend] = useState(true);
+  const [isClusterMenuOpen, setIsClusterMenuOpen] = useState(false);
 
   const handleZoomIn = () => {
     if (networkRef.current) {
@@ -74,6 +126,13 @@ export const ZoomControls: React.FC<ZoomControlsProps> = ({
     }
   };
 
+  const handleCopyLink = async () => {
+    if (!onCopyLink) return;
+    const copied = await onCopyLink();
+    setCopyLinkStatus(copied ? 'copied' : 'failed');
+    setTimeout(() => setCopyLinkStatus('idle'), 2000);
+  };
+
   // Export functions
   const handleExportPNG = () => {
     if (networkRef.current) {
@@ -108,83 +167,18 @@ export const ZoomControls: React.FC<ZoomControlsProps> = ({
   const handleExportSVG = () => {
     if (networkRef.current) {
       try {
-        // Get network data
-        const nodes = (networkRef.current as any).body.data.nodes;
-        const edges = (networkRef.current as any).body.data.edges;
-        const positions = networkRef.current.getPositions();
-        
-        if (!nodes || !edges || !positions) {
+        const scene = collectSvgScene(networkRef.current);
+        if (scene.nodes.length === 0) {
           alert('Network data not available for SVG export');
           return;
         }
-        
-        // Calculate bounding box
-        const nodePositions = Object.values(positions) as { x: number; y: number }[];
-        const minX = Math.min(...nodePositions.map(p => p.x)) - 100;
-        const maxX = Math.max(...nodePositions.map(p => p.x)) + 100;
-        const minY = Math.min(...nodePositions.map(p => p.y)) - 100;
-        const maxY = Math.max(...nodePositions.map(p => p.y)) + 100;
-        const width = maxX - minX;
-        const height = maxY - minY;
-        
-        // Start SVG content
-        let svg = `<?xml version="1.0" encoding="UTF-8"?>
-<svg width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}" xmlns="http://www.w3.org/2000/svg">
-  <defs>
-    <style>
-      .node-text { font-family: Inter, Arial, sans-serif; font-size: 14px; text-anchor: middle; }
-      .edge-line { stroke: #848484; stroke-width: 2; }
-      .node-rect { stroke: #333; stroke-width: 2; rx: 12; }
-    </style>
-  </defs>
-  <g id="edges">`;
-        
-        // Add edges
-        if (edges._data) {
-          Object.values(edges._data).forEach((edge: any) => {
-            const fromPos = positions[edge.from];
-            const toPos = positions[edge.to];
-            if (fromPos && toPos) {
-              svg += `
-    <line x1="${fromPos.x}" y1="${fromPos.y}" x2="${toPos.x}" y2="${toPos.y}" class="edge-line"/>`;
-            }
-          });
-        }
-        
-        svg += `
-  </g>
-  <g id="nodes">`;
-        
-        // Add nodes
-        if (nodes._data) {
-          Object.values(nodes._data).forEach((node: any) => {
-            const pos = positions[node.id];
-            if (pos) {
-              const nodeWidth = 120;
-              const nodeHeight = 60;
-              const x = pos.x - nodeWidth/2;
-              const y = pos.y - nodeHeight/2;
-              
-              // Node background
-              svg += `
-    <rect x="${x}" y="${y}" width="${nodeWidth}" height="${nodeHeight}" 
-          fill="#ffffff" class="node-rect"/>`;
-          
-              // Node text (handle multiline)
-              const lines = (node.label || node.id || '').split('\n');
-              const textY = pos.y - (lines.length - 1) * 7;
-              lines.forEach((line: string, index: number) => {
-                svg += `
-    <text x="${pos.x}" y="${textY + index * 14}" class="node-text">${escapeXml(line)}</text>`;
-              });
-            }
-          });
-        }
-        
-        svg += `
-  </g>
-</svg>`;
-        
+
+        const svg = renderTopologySvg(scene, {
+          theme,
+          title: svgTitle.trim() || undefined,
+          includeLegend: svgIncludeLegend,
+        });
+
         // Download SVG
         const blob = new Blob([svg], { type: 'image/svg+xml' });
         const link = document.createElement('a');
@@ -192,21 +186,21 @@ export const ZoomControls: React.FC<ZoomControlsProps> = ({
         link.href = URL.createObjectURL(blob);
         link.click();
         URL.revokeObjectURL(link.href);
-        
+        setOpenExportMenu(null);
       } catch (error) {
         alert('SVG export failed. Try PNG or JPEG export instead.');
       }
     }
   };
-  
-  // Helper function to escape XML characters
-  const escapeXml = (text: string): string => {
-    return text
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&apos;');
+
+  const handleDataExport = (format: DataExportFormat) => {
+    setOpenExportMenu(null);
+    onExportData?.(format);
+  };
+
+  const handleClusterMenuAction = (action: () => void) => {
+    setIsClusterMenuOpen(false);
+    action();
   };
 
   const handleExportHTML = () => {
@@ -332,6 +326,38 @@ export const ZoomControls: React.FC<ZoomControlsProps> = ({
           <span className="text-base">⌂</span>
         </button>
 
+        {/* Undo / Redo */}
+        {onUndo && onRedo && (
+          <>
+            {/* Separator line */}
+            <div className={`h-px my-1 ${
+              theme === 'dark' ? 'bg-gray-600' : 'bg-gray-200'
+            }`} />
+
+            <button
+              onClick={onUndo}
+              disabled={!undoLabel}
+              className={`${uniformButtonClass} ${themeClasses} disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:scale-100`}
+              title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 14L4 9l5-5M4 9h11a5 5 0 010 10h-3"/>
+              </svg>
+            </button>
+
+            <button
+              onClick={onRedo}
+              disabled={!redoLabel}
+              className={`${uniformButtonClass} ${themeClasses} disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:scale-100`}
+              title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 14l5-5-5-5M20 9H9a5 5 0 000 10h3"/>
+              </svg>
+            </button>
+          </>
+        )}
+
         {/* Search Canvas */}
         {onOpenSearch && (
           <>
@@ -356,6 +382,106 @@ export const ZoomControls: React.FC<ZoomControlsProps> = ({
             </button>
           </>
         )}
+
+        {/* Find Path */}
+        {onTogglePathMode && (
+          <button
+            onClick={onTogglePathMode}
+            className={`${uniformButtonClass} ${isPathMode ? activeLayoutClass : themeClasses}`}
+            title={isPathMode ? 'Exit Find Path' : 'Find Path Between Two Nodes'}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <circle cx="5" cy="6" r="2" strokeWidth={2}/>
+              <circle cx="19" cy="18" r="2" strokeWidth={2}/>
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 6h6a3 3 0 010 6h-2a3 3 0 000 6h6"/>
+            </svg>
+          </button>
+        )}
+
+        {/* Likely Cause */}
+        {onToggleCauseMode && (
+          <button
+            onClick={onToggleCauseMode}
+            className={`${uniformButtonClass} ${isCauseMode ? activeLayoutClass : themeClasses}`}
+            title={isCauseMode ? 'Close Likely Cause' : 'Likely Cause for Offline Devices'}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v4m0 0a2 2 0 100 4 2 2 0 000-4zm0 4v2m0 0l-6 5m6-5l6 5M6 16a2 2 0 100 4 2 2 0 000-4zm12 0a2 2 0 100 4 2 2 0 000-4z"/>
+            </svg>
+          </button>
+        )}
+
+        {/* Open Events */}
+        {onToggleEventsMode && (
+          <button
+            onClick={onToggleEventsMode}
+            className={`${uniformButtonClass} ${isEventsMode ? activeLayoutClass : themeClasses}`}
+            title={isEventsMode ? 'Close Open Events' : 'Open Events by Severity'}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"/>
+            </svg>
+          </button>
+        )}
+
+        {/* Color by Organization */}
+        {onToggleOrganizationColoring && (
+          <button
+            onClick={onToggleOrganizationColoring}
+            className={`${uniformButtonClass} ${isOrganizationColoring ? activeLayoutClass : themeClasses}`}
+            title={isOrganizationColoring ? 'Stop Coloring by Organization' : 'Color Devices by Organization'}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4"/>
+            </svg>
+          </button>
+        )}
+
+        {/* Collapse / Expand Clusters - menu opens beside the button */}
+        {onClusterBy && (
+          <div className="relative">
+            <button
+              onClick={() => setIsClusterMenuOpen(prev => !prev)}
+              className={`${uniformButtonClass} ${isClusterMenuOpen || clusterCount > 0 ? activeLayoutClass : themeClasses}`}
+              title={clusterCount > 0 ? `Clusters (${clusterCount} collapsed)` : 'Collapse Devices into Clusters'}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <circle cx="12" cy="12" r="3" strokeWidth={2}/>
+                <circle cx="5" cy="5" r="2" strokeWidth={2}/>
+                <circle cx="19" cy="5" r="2" strokeWidth={2}/>
+                <circle cx="12" cy="20" r="2" strokeWidth={2}/>
+                <path strokeLinecap="round" strokeWidth={2} d="M6.5 6.5l3.4 3.4m7.6-3.4l-3.4 3.4M12 15v3"/>
+              </svg>
+            </button>
+
+            {isClusterMenuOpen && (
+              <div className={`absolute left-full top-0 ml-2 w-48 py-1 rounded-lg border shadow-xl ${
+                theme === 'dark' ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-200'
+              }`}>
+                {[
+                  { label: 'Collapse by type', description: 'One cluster per device type', action: () => onClusterBy('type') },
+                  { label: 'Collapse by /24 subnet', description: 'One cluster per /24 network', action: () => onClusterBy('subnet') },
+                  ...(clusterCount > 0 && onExpandAllClusters
+                    ? [{ label: 'Expand all', description: 'Double-click a cluster to expand just that one', action: onExpandAllClusters }]
+                    : []),
+                ].map(item => (
+                  <button
+                    key={item.label}
+                    onClick={() => handleClusterMenuAction(item.action)}
+                    className={`w-full px-3 py-1.5 text-left transition-colors duration-200 ${
+                      theme === 'dark' ? 'hover:bg-gray-700 text-gray-100' : 'hover:bg-gray-100 text-gray-700'
+                    }`}
+                  >
+                    <div className="text-sm font-medium">{item.label}</div>
+                    <div className={`text-xs ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                      {item.description}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Layout Controls - All Canvas */}
@@ -594,14 +720,129 @@ export const ZoomControls: React.FC<ZoomControlsProps> = ({
           <span className="text-xs font-bold">HTML</span>
         </button>
 
-        {/* Export SVG */}
-        <button
-          onClick={handleExportSVG}
-          className={`${uniformButtonClass} ${themeClasses}`}
-          title="Export as SVG"
-        >
-          <span className="text-xs font-bold">SVG</span>
-        </button>
+        {/* Export SVG - vector redraw of the canvas, options open beside the button */}
+        <div className="relative">
+          <button
+            onClick={() => setOpenExportMenu(prev => prev === 'svg' ? null : 'svg')}
+            className={`${uniformButtonClass} ${openExportMenu === 'svg' ? activeLayoutClass : themeClasses}`}
+            title="Export as SVG"
+          >
+            <span className="text-xs font-bold">SVG</span>
+          </button>
+
+          {openExportMenu === 'svg' && (
+            <div className={`absolute left-full top-0 ml-2 w-56 p-3 space-y-2 rounded-lg border shadow-xl ${
+              theme === 'dark' ? 'bg-gray-800 border-gray-600 text-gray-100' : 'bg-white border-gray-200 text-gray-700'
+            }`}>
+              <input
+                type="text"
+                value={svgTitle}
+                onChange={(e) => setSvgTitle(e.target.value)}
+                placeholder="Title (optional)"
+                className={`w-full px-2 py-1 text-sm rounded-md border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  theme === 'dark' ? 'bg-gray-700 border-gray-600 placeholder-gray-400' : 'bg-white border-gray-300 placeholder-gray-400'
+                }`}
+              />
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={svgIncludeLegend}
+                  onChange={(e) => setSvgIncludeLegend(e.target.checked)}
+                />
+                Include legend
+              </label>
+              <button
+                onClick={handleExportSVG}
+                className="w-full px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium transition-colors duration-200"
+              >
+                Download SVG
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Export PDF - tiled pages with title block and device index */}
+        {onExportPdf && (
+          <button
+            onClick={onExportPdf}
+            disabled={isExportingPdf}
+            className={`${uniformButtonClass} ${themeClasses} disabled:opacity-50`}
+            title={isExportingPdf ? 'Building PDF...' : 'Export as multi-page PDF'}
+          >
+            <span className="text-xs font-bold">{isExportingPdf ? '...' : 'PDF'}</span>
+          </button>
+        )}
+
+        {/* Export graph data - menu opens beside the button */}
+        {onExportData && (
+          <div className="relative">
+            <button
+              onClick={() => setOpenExportMenu(prev => prev === 'data' ? null : 'data')}
+              className={`${uniformButtonClass} ${openExportMenu === 'data' ? activeLayoutClass : themeClasses}`}
+              title="Export Graph Data"
+            >
+              <span className="text-xs font-bold">DATA</span>
+            </button>
+
+            {openExportMenu === 'data' && (
+              <div className={`absolute left-full top-0 ml-2 w-48 py-1 rounded-lg border shadow-xl ${
+                theme === 'dark' ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-200'
+              }`}>
+                {DATA_EXPORT_OPTIONS.map(option => (
+                  <button
+                    key={option.format}
+                    onClick={() => handleDataExport(option.format)}
+                    className={`w-full px-3 py-1.5 text-left transition-colors duration-200 ${
+                      theme === 'dark' ? 'hover:bg-gray-700 text-gray-100' : 'hover:bg-gray-100 text-gray-700'
+                    }`}
+                  >
+                    <div className="text-sm font-medium">{option.label}</div>
+                    <div className={`text-xs ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                      {option.description}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Copy shareable link */}
+        {onCopyLink && (
+          <>
+            {/* Separator line */}
+            <div className={`h-px my-1 ${
+              theme === 'dark' ? 'bg-gray-600' : 'bg-gray-200'
+            }`} />
+
+            <button
+              onClick={handleCopyLink}
+              className={`${uniformButtonClass} ${
+                copyLinkStatus === 'copied'
+                  ? 'bg-green-500 border-green-400 text-white shadow-green-500/25'
+                  : copyLinkStatus === 'failed'
+                  ? 'bg-red-500 border-red-400 text-white shadow-red-500/25'
+                  : themeClasses
+              }`}
+              title={
+                copyLinkStatus === 'copied'
+                  ? 'Link copied to clipboard'
+                  : copyLinkStatus === 'failed'
+                  ? 'Could not copy link'
+                  : 'Copy link to this view'
+              }
+            >
+              {copyLinkStatus === 'copied' ? (
+                <span className="text-base font-bold">✓</span>
+              ) : (
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                    d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1"/>
+                </svg>
+              )}
+            </button>
+          </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,266 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SavedView, savedViewsService } from '../../services/savedViews';
+import { downloadFile, readFileAsText, timestampedFilename } from '../../utils/download';
+
+interface SavedViewsModalProps {
+  isOpen: boolean;
+  canSave: boolean;
+  onSave: (name: string) => void;
+  onLoad: (view: SavedView) => void;
+  onClose: () => void;
+}
+
+export const SavedViewsModal: React.FC<SavedViewsModalProps> = ({
+  isOpen,
+  canSave,
+  onSave,
+  onLoad,
+  onClose,
+}) => {
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [newViewName, setNewViewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Reload views from storage every time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setViews(savedViewsService.getViews());
+      setError(null);
+      setRenamingId(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const refreshViews = () => setViews(savedViewsService.getViews());
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const handleSave = () => {
+    const name = newViewName.trim();
+    if (!name || !canSave) return;
+
+    if (views.some(view => view.name === name) &&
+        !window.confirm(`A view named "${name}" already exists. Overwrite it?`)) {
+      return;
+    }
+
+    try {
+      onSave(name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save view');
+      return;
+    }
+    setError(null);
+    setNewViewName('');
+    refreshViews();
+  };
+
+  const handleLoad = (view: SavedView) => {
+    onLoad(view);
+    onClose();
+  };
+
+  const handleStartRename = (view: SavedView) => {
+    setRenamingId(view.id);
+    setRenameValue(view.name);
+  };
+
+  const handleRename = () => {
+    if (renamingId) {
+      try {
+        savedViewsService.renameView(renamingId, renameValue);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to rename view');
+        return;
+      }
+      setRenamingId(null);
+      refreshViews();
+    }
+  };
+
+  const handleDelete = (view: SavedView) => {
+    if (window.confirm(`Delete saved view "${view.name}"?`)) {
+      savedViewsService.deleteView(view.id);
+      refreshViews();
+    }
+  };
+
+  const handleExport = (exportViews: SavedView[], prefix: string) => {
+    downloadFile(
+      savedViewsService.serializeViews(exportViews),
+      timestampedFilename(prefix, 'json'),
+      'application/json'
+    );
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+
+    try {
+      savedViewsService.importViews(await readFileAsText(file));
+      setError(null);
+      refreshViews();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import views');
+    }
+  };
+
+  const actionButtonClass = 'px-2 py-1 rounded-md text-xs font-medium transition-colors duration-200';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 backdrop-blur-sm"
+      onClick={handleBackdropClick}
+    >
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl border border-slate-200 dark:border-slate-600 max-w-lg w-full mx-4 animate-scale-in">
+        {/* Header */}
+        <div className="p-6 pb-4 border-b border-slate-200 dark:border-slate-600 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+              Saved Views
+            </h2>
+            <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+              Save and restore complete canvas layouts
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-full flex items-center justify-center text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            title="Close"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Save current canvas */}
+        <div className="p-6 pb-4 space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newViewName}
+              onChange={(e) => setNewViewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              placeholder={canSave ? 'Name for current canvas...' : 'Add devices to the canvas to save a view'}
+              disabled={!canSave}
+              className="flex-1 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!canSave || !newViewName.trim()}
+              className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+          </div>
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          )}
+        </div>
+
+        {/* Saved views list */}
+        <div className="px-6 max-h-80 overflow-y-auto space-y-2">
+          {views.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-6">
+              No saved views yet
+            </p>
+          ) : (
+            views.map(view => (
+              <div
+                key={view.id}
+                className="flex items-center justify-between gap-2 p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600"
+              >
+                <div className="min-w-0 flex-1">
+                  {renamingId === view.id ? (
+                    <input
+                      type="text"
+                      value={renameValue}
+                      autoFocus
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRename();
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      onBlur={handleRename}
+                      className="w-full px-2 py-1 border border-blue-400 rounded-md bg-white dark:bg-slate-800 text-sm text-slate-800 dark:text-slate-100 focus:outline-none"
+                    />
+                  ) : (
+                    <div className="font-medium text-sm text-slate-800 dark:text-slate-100 truncate" title={view.name}>
+                      {view.name}
+                    </div>
+                  )}
+                  <div className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
+                    {view.topology.nodes.length} nodes · {view.selectedDevices.length} seed device{view.selectedDevices.length !== 1 ? 's' : ''} · {new Date(view.updatedAt).toLocaleString()}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => handleLoad(view)}
+                    className={`${actionButtonClass} bg-blue-100 hover:bg-blue-200 dark:bg-blue-900/40 dark:hover:bg-blue-900/70 text-blue-700 dark:text-blue-300`}
+                    title="Load this view onto the canvas"
+                  >
+                    Load
+                  </button>
+                  <button
+                    onClick={() => handleStartRename(view)}
+                    className={`${actionButtonClass} bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500 text-slate-700 dark:text-slate-200`}
+                    title="Rename view"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    onClick={() => handleExport([view], 'topology-view')}
+                    className={`${actionButtonClass} bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500 text-slate-700 dark:text-slate-200`}
+                    title="Export view as JSON"
+                  >
+                    Export
+                  </button>
+                  <button
+                    onClick={() => handleDelete(view)}
+                    className={`${actionButtonClass} bg-red-100 hover:bg-red-200 dark:bg-red-900/40 dark:hover:bg-red-900/70 text-red-700 dark:text-red-300`}
+                    title="Delete view"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Footer - file import/export */}
+        <div className="p-6 pt-4 flex items-center justify-between gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-slate-50 dark:bg-slate-700 hover:bg-slate-100 dark:hover:bg-slate-600 text-sm font-medium text-slate-700 dark:text-slate-300 transition-colors"
+          >
+            Import JSON
+          </button>
+          <button
+            onClick={() => handleExport(views, 'topology-views')}
+            disabled={views.length === 0}
+            className="px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-slate-50 dark:bg-slate-700 hover:bg-slate-100 dark:hover:bg-slate-600 text-sm font-medium text-slate-700 dark:text-slate-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Export All
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
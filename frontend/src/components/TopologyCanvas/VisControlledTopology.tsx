@@ -1,6 +1,7 @@
-import React from 'react';
+import { forwardRef } from 'react';
 import { Device, TopologyResponse } from '../../services/api';
-import { SimpleVisNetworkTopology } from '../NetworkTopology/SimpleVisNetworkTopology';
+import { CanvasLayoutState } from '../../services/savedViews';
+import { SimpleVisNetworkTopology, SimpleVisNetworkTopologyRef } from '../NetworkTopology/SimpleVisNetworkTopology';
 import styles from './VisControlled.module.css';
 
 interface VisControlledTopologyProps {
@@ -15,11 +16,23 @@ interface VisControlledTopologyProps {
   onAddDeviceToSelection?: (device: Device) => void;
   onSelectedNodeRemoval?: (selectedNodeIds: string[]) => void;
   onCanvasLockChange?: (locked: boolean) => void;
+  restoredCanvasState?: CanvasLayoutState | null;
+  onCanvasStateRestored?: () => void;
+  onCopyLink?: () => Promise<boolean>;
+  onCanvasChange?: (action: string) => void;
+  undoLabel?: string | null;
+  redoLabel?: string | null;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  onExpandPathDepth?: (sourceId: string, targetId: string) => Promise<void>;
+  onExpandImpactDepth?: (deviceId: string) => Promise<void>;
+  isOffline?: boolean;
+  viewName?: string;
   className?: string;
   theme?: 'light' | 'dark';
 }
 
-export const VisControlledTopology: React.FC<VisControlledTopologyProps> = ({
+export const VisControlledTopology = forwardRef<SimpleVisNetworkTopologyRef, VisControlledTopologyProps>(({
   devices = [],
   selectedDevices = [],
   topologyData = null,
@@ -31,15 +44,28 @@ export const VisControlledTopology: React.FC<VisControlledTopologyProps> = ({
   onAddDeviceToSelection,
   onSelectedNodeRemoval,
   onCanvasLockChange,
+  restoredCanvasState,
+  onCanvasStateRestored,
+  onCopyLink,
+  onCanvasChange,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
+  onExpandPathDepth,
+  onExpandImpactDepth,
+  isOffline = false,
+  viewName,
   className = '',
   theme = 'light',
-}) => {
+}, ref) => {
   // Always render the topology component, even when empty
   // This provides a consistent canvas without the "Ready for Topology" message
 
   return (
     <div className={`${styles.controlledTopology} ${className}`}>
       <SimpleVisNetworkTopology
+        ref={ref}
         devices={devices}
         selectedDevices={selectedDevices}
         topologyData={topologyData || undefined}
@@ -51,9 +77,21 @@ export const VisControlledTopology: React.FC<VisControlledTopologyProps> = ({
         onAddDeviceToSelection={onAddDeviceToSelection}
         onSelectedNodeRemoval={onSelectedNodeRemoval}
         onCanvasLockChange={onCanvasLockChange}
+        restoredCanvasState={restoredCanvasState}
+        onCanvasStateRestored={onCanvasStateRestored}
+        onCopyLink={onCopyLink}
+        onCanvasChange={onCanvasChange}
+        undoLabel={undoLabel}
+        redoLabel={redoLabel}
+        onUndo={onUndo}
+        onRedo={onRedo}
+        onExpandPathDepth={onExpandPathDepth}
+        onExpandImpactDepth={onExpandImpactDepth}
+        isOffline={isOffline}
+        viewName={viewName}
         className={styles.visNetworkWrapper}
         theme={theme}
       />
     </div>
   );
-};
\ No newline at end of file
+});
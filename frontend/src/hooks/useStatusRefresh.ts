@@ -0,0 +1,69 @@
+import { useState, useEffect, useRef } from 'react';
+import { Device, apiService } from '../services/api';
+import { configService } from '../services/config';
+
+type DeviceStatuses = { [deviceId: string]: Device['status'] };
+
+// Polls device status for the nodes on the canvas using ui.autoRefresh / ui.refreshInterval.
+// Callbacks are read through refs so the interval always sees the latest canvas state.
+// `enabled` turns polling off entirely (offline topologies have nothing to poll).
+export const useStatusRefresh = (
+  getDeviceIds: () => string[],
+  onStatuses: (statuses: DeviceStatuses) => void,
+  enabled: boolean = true
+) => {
+  const { autoRefresh, refreshInterval } = configService.getUIConfig();
+  const [isPaused, setIsPaused] = useState(!autoRefresh);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const getDeviceIdsRef = useRef(getDeviceIds);
+  const onStatusesRef = useRef(onStatuses);
+  getDeviceIdsRef.current = getDeviceIds;
+  onStatusesRef.current = onStatuses;
+
+  useEffect(() => {
+    if (isPaused || !enabled) return;
+
+    let cancelled = false;
+    // A tick while the last request is still out is skipped, so a slow response can't land
+    // after a newer one and apply stale statuses
+    let inFlight = false;
+    const refresh = async () => {
+      if (inFlight) return;
+      const deviceIds = getDeviceIdsRef.current();
+      if (deviceIds.length === 0) return;
+
+      inFlight = true;
+      setIsRefreshing(true);
+      try {
+        const response = await apiService.getDeviceStatus(deviceIds);
+        if (cancelled) return;
+        onStatusesRef.current(response.statuses);
+        setLastUpdated(new Date(response.timestamp));
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError('Status refresh failed');
+      } finally {
+        inFlight = false;
+        if (!cancelled) setIsRefreshing(false);
+      }
+    };
+
+    // Refresh immediately on resume, then on every interval
+    refresh();
+    const intervalId = setInterval(refresh, refreshInterval);
+
+    return () => {
+      cancelled = true;
+      clearInterval(intervalId);
+    };
+  }, [isPaused, enabled, refreshInterval]);
+
+  const togglePaused = () => {
+    setIsPaused(prev => !prev);
+  };
+
+  return { isPaused, togglePaused, isRefreshing, lastUpdated, error, refreshInterval };
+};
@@ -0,0 +1,77 @@
+import { useRef, useState } from 'react';
+
+// Undo/redo stacks of whole-state snapshots. `record` takes the state from just before a change;
+// `undo` and `redo` hand back the snapshot to restore and keep the current state for the other stack.
+export interface HistoryEntry<T> {
+  // What the change was, e.g. "Move nodes" - shown on the undo/redo buttons
+  label: string;
+  snapshot: T;
+}
+
+// Snapshots hold the whole topology, so keep the stacks bounded
+const MAX_HISTORY = 50;
+
+interface HistoryStacks<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+}
+
+export const useUndoHistory = <T>() => {
+  // The stacks live in a ref so back-to-back undo/redo calls before a re-render (e.g. a held
+  // Ctrl+Z) each pop the latest entry - only the button labels need to re-render
+  const stacksRef = useRef<HistoryStacks<T>>({ past: [], future: [] });
+  const [labels, setLabels] = useState<{ undoLabel: string | null; redoLabel: string | null }>({
+    undoLabel: null,
+    redoLabel: null,
+  });
+
+  const update = (stacks: HistoryStacks<T>) => {
+    stacksRef.current = stacks;
+    setLabels({
+      undoLabel: stacks.past[stacks.past.length - 1]?.label ?? null,
+      redoLabel: stacks.future[stacks.future.length - 1]?.label ?? null,
+    });
+  };
+
+  const record = (label: string, snapshot: T) => {
+    update({
+      past: [...stacksRef.current.past, { label, snapshot }].slice(-MAX_HISTORY),
+      future: [],
+    });
+  };
+
+  const undo = (current: T): HistoryEntry<T> | null => {
+    const { past, future } = stacksRef.current;
+    const entry = past[past.length - 1];
+    if (!entry) return null;
+    update({
+      past: past.slice(0, -1),
+      future: [...future, { label: entry.label, snapshot: current }],
+    });
+    return entry;
+  };
+
+  const redo = (current: T): HistoryEntry<T> | null => {
+    const { past, future } = stacksRef.current;
+    const entry = future[future.length - 1];
+    if (!entry) return null;
+    update({
+      past: [...past, { label: entry.label, snapshot: current }],
+      future: future.slice(0, -1),
+    });
+    return entry;
+  };
+
+  const clear = () => {
+    update({ past: [], future: [] });
+  };
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    undoLabel: labels.undoLabel,
+    redoLabel: labels.redoLabel,
+  };
+};
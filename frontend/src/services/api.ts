@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { configService } from './config';
+import { DeviceQuery } from '../utils/deviceQuery';
 
 // Get API configuration from config service
 const apiConfig = configService.getApiConfig();
@@ -13,12 +14,19 @@ const api = axios.create({
 });
 
 // Device types
+// SL1 organization owning a device - the tenant boundary for MSP inventories
+export interface DeviceOrganization {
+  id: string;
+  name: string;
+}
+
 export interface Device {
   id: string;
   name: string;
   ip: string;
   type: string;
   status: 'online' | 'offline' | 'warning' | 'unknown';
+  organization?: DeviceOrganization | null;
 }
 
 export interface DevicesResponse {
@@ -32,6 +40,7 @@ export interface DevicesResponse {
   filters: {
     availableTypes: string[];
     availableStatuses: string[];
+    availableOrganizations?: DeviceOrganization[];
   };
 }
 
@@ -41,11 +50,20 @@ export interface TopologyNode {
   type: string;
   status: 'online' | 'offline' | 'warning' | 'unknown';
   ip: string;
+  organization?: DeviceOrganization | null;
 }
 
+// SL1 relationship classes - anything SL1 reports that is not one of these is 'other'
+export type RelationshipType = 'layer2' | 'cdp' | 'lldp' | 'virtualization' | 'component' | 'other';
+
 export interface TopologyEdge {
   source: string;
   target: string;
+  // Missing on topologies saved or imported before relationships were typed
+  type?: RelationshipType;
+  // SL1 relationship record and its type as SL1 names it
+  relationshipId?: string;
+  typeName?: string;
 }
 
 export interface TopologyResponse {
@@ -61,6 +79,50 @@ export interface TopologyResponse {
   };
 }
 
+export interface DeviceStatusResponse {
+  statuses: { [deviceId: string]: Device['status'] };
+  timestamp: string;
+}
+
+// Immediate parent or child listed in a device's details
+export interface DeviceRelative {
+  id: string;
+  name: string;
+  ip: string;
+  status: Device['status'];
+}
+
+// Full SL1 record for one device - loaded on demand by the details panel
+export interface DeviceDetails extends Device {
+  state: string | null; // Raw SL1 state before normalization
+  deviceClass: string | null;
+  organization: DeviceOrganization | null;
+  collector: { id: string; name: string } | null;
+  lastDiscovered: string | null; // ISO timestamp
+  parents: DeviceRelative[];
+  children: DeviceRelative[];
+  // The device has more relationships than the details call reads, so some relatives are missing
+  relationshipsIncomplete: boolean;
+}
+
+// Open SL1 event on a device - healthy/cleared events are never returned
+export type EventSeverity = 'critical' | 'major' | 'minor' | 'notice';
+
+export interface DeviceEvent {
+  id: string;
+  deviceId: string;
+  severity: EventSeverity;
+  message: string;
+  firstSeen: string; // ISO timestamp
+  lastSeen: string; // ISO timestamp
+  count: number; // Occurrences rolled up into this event
+}
+
+export interface EventsResponse {
+  events: DeviceEvent[];
+  timestamp: string;
+}
+
 // NO MOCK DATA - Use real API only
 
 // API functions
@@ -69,12 +131,17 @@ export const apiService = {
   async getDevices(params: {
     search?: string;
     type?: string;
-    status?: string;
+    status?: Device['status'];
+    organization?: string; // Organization ID
+    query?: DeviceQuery | null; // Parsed structured search, sent as JSON
     limit?: number;
     cursor?: string;
   }): Promise<DevicesResponse> {
     try {
-      const response = await api.get<DevicesResponse>('/devices', { params });
+      const { query, ...rest } = params;
+      const response = await api.get<DevicesResponse>('/devices', {
+        params: { ...rest, query: query ? JSON.stringify(query) : undefined },
+      });
       return response.data;
     } catch (error) {
       // Return empty but valid response instead of crashing
@@ -87,7 +154,8 @@ export const apiService = {
         },
         filters: {
           availableTypes: [],
-          availableStatuses: ['online', 'offline', 'warning', 'unknown']
+          availableStatuses: ['online', 'offline', 'warning', 'unknown'],
+          availableOrganizations: []
         }
       };
     }
@@ -112,6 +180,24 @@ export const apiService = {
     const response = await api.post<TopologyResponse>('/topology', params);
     return response.data;
   },
+
+  // Get current status for a set of devices (uncached - used by live status refresh)
+  async getDeviceStatus(deviceIds: string[]): Promise<DeviceStatusResponse> {
+    const response = await api.post<DeviceStatusResponse>('/devices/status', { deviceIds });
+    return response.data;
+  },
+
+  // Get open events for a set of devices (uncached - refreshed with the live status poll)
+  async getEvents(deviceIds: string[]): Promise<EventsResponse> {
+    const response = await api.post<EventsResponse>('/events', { deviceIds });
+    return response.data;
+  },
+
+  // Get the full record of one device plus its immediate parents and children
+  async getDeviceDetails(deviceId: string): Promise<DeviceDetails> {
+    const response = await api.get<DeviceDetails>(`/devices/${encodeURIComponent(deviceId)}`);
+    return response.data;
+  },
 };
 
 export default apiService;
\ No newline at end of file
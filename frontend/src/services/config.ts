@@ -3,6 +3,7 @@ import frontendConfig from '../../../config/frontend-config.json';
 export interface ApiConfig {
   baseUrl: string;
   timeout: number;
+  fallbackUrl?: string; // Local mock backend (npm run mock-server)
 }
 
 export interface TopologyConfig {
@@ -62,9 +63,15 @@ class ConfigService {
       baseConfig.ui.theme = envTheme;
     }
 
+    // Dev mode against the local mock backend (npm run dev:mock)
+    const env = (import.meta as any).env;
+    if (env?.DEV && env?.VITE_USE_MOCK_API === 'true') {
+      baseConfig.api.baseUrl = baseConfig.api.fallbackUrl || 'http://localhost:3001';
+    }
+
     // Handle placeholder API URL (before Lambda deployment)
     if (!baseConfig.api.baseUrl || baseConfig.api.baseUrl === 'PLACEHOLDER_LAMBDA_API_URL') {
-      baseConfig.api.baseUrl = (baseConfig.api as any).fallbackUrl || 'http://localhost:3000';
+      baseConfig.api.baseUrl = baseConfig.api.fallbackUrl || 'http://localhost:3001';
     }
 
     // Load user preferences from localStorage
@@ -0,0 +1,171 @@
+import { Device, TopologyResponse } from './api';
+
+// Canvas-side state that the topology component owns (positions, locks, collapsed subtrees, layout, viewport)
+export interface CanvasLayoutState {
+  positions: { [nodeId: string]: { x: number; y: number } };
+  lockedNodes: string[];
+  // Devices whose descendants are hidden - missing from views saved before subtrees could collapse
+  collapsedNodes?: string[];
+  layout: 'hierarchical' | 'physics' | 'grid';
+  viewport?: {
+    scale: number;
+    position: { x: number; y: number };
+  };
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  // App-level state needed to rebuild the canvas
+  selectedDevices: Device[];
+  deviceDirections: { [deviceId: string]: 'parents' | 'children' | 'both' };
+  deviceDepths: { [deviceId: string]: number };
+  globalDepth: number;
+  // Snapshot of the topology so loading does not need to refetch or re-run layout
+  topology: TopologyResponse['topology'];
+  canvas: CanvasLayoutState;
+}
+
+export type SavedViewInput = Omit<SavedView, 'id' | 'createdAt' | 'updatedAt'>;
+
+interface SavedViewsFile {
+  format: 'sl1-topology-views';
+  version: 1;
+  views: SavedView[];
+}
+
+const STORAGE_KEY = 'sl1-topology-saved-views';
+
+const generateViewId = (): string => {
+  // crypto.randomUUID is unavailable over plain HTTP, so build a simple unique ID
+  return `view-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+const isValidView = (value: any): value is SavedView => {
+  return !!value
+    && typeof value.name === 'string'
+    && Array.isArray(value.selectedDevices)
+    && typeof value.deviceDirections === 'object'
+    && typeof value.deviceDepths === 'object'
+    && typeof value.globalDepth === 'number'
+    && Array.isArray(value.topology?.nodes)
+    && Array.isArray(value.topology?.edges)
+    && typeof value.canvas?.positions === 'object'
+    && Array.isArray(value.canvas?.lockedNodes);
+};
+
+class SavedViewsService {
+  getViews(): SavedView[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return [];
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed.filter(isValidView) : [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  saveView(input: SavedViewInput): SavedView {
+    const now = new Date().toISOString();
+    const views = this.getViews();
+    const existing = views.find(view => view.name === input.name);
+
+    // Saving under an existing name overwrites that view
+    const view: SavedView = {
+      ...input,
+      id: existing?.id || generateViewId(),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+
+    this.persist(existing
+      ? views.map(v => (v.id === existing.id ? view : v))
+      : [...views, view]);
+    return view;
+  }
+
+  renameView(id: string, name: string): void {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    this.persist(this.getViews().map(view =>
+      view.id === id ? { ...view, name: trimmed, updatedAt: new Date().toISOString() } : view
+    ));
+  }
+
+  deleteView(id: string): void {
+    this.persist(this.getViews().filter(view => view.id !== id));
+  }
+
+  // Serialize one or more views into the JSON file format
+  serializeViews(views: SavedView[]): string {
+    const file: SavedViewsFile = {
+      format: 'sl1-topology-views',
+      version: 1,
+      views,
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  // Import views from a JSON file - accepts the export format or a bare view/array
+  importViews(json: string): SavedView[] {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(json);
+    } catch (error) {
+      throw new Error('File is not valid JSON');
+    }
+
+    const candidates: any[] = Array.isArray(parsed)
+      ? parsed
+      : Array.isArray(parsed?.views) ? parsed.views : [parsed];
+    const validViews = candidates.filter(isValidView);
+
+    if (validViews.length === 0) {
+      throw new Error('No saved views found in file');
+    }
+
+    const existingViews = this.getViews();
+    const existingNames = new Set(existingViews.map(view => view.name));
+    const now = new Date().toISOString();
+
+    // Imported views always get fresh IDs; clashing names get a suffix instead of overwriting
+    const imported = validViews.map(view => {
+      let name = view.name;
+      let suffix = 2;
+      while (existingNames.has(name)) {
+        name = `${view.name} (${suffix++})`;
+      }
+      existingNames.add(name);
+      return {
+        ...view,
+        id: generateViewId(),
+        name,
+        createdAt: view.createdAt || now,
+        updatedAt: now,
+      };
+    });
+
+    this.persist([...existingViews, ...imported]);
+    return imported;
+  }
+
+  // Views hold whole topology snapshots, so a few large ones can fill the storage quota
+  private persist(views: SavedView[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(views));
+    } catch (error) {
+      console.error('Failed to store saved views:', error);
+      if (error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')) {
+        throw new Error('Browser storage is full - export and delete some saved views, then try again');
+      }
+      throw new Error('Failed to store saved views');
+    }
+  }
+}
+
+// Export singleton instance
+export const savedViewsService = new SavedViewsService();
+export default savedViewsService;
@@ -0,0 +1,90 @@
+import { Device, TopologyEdge, TopologyNode } from '../services/api';
+
+// Collapse rules for the canvas - each rule folds its member devices into one cluster node.
+// Rules are kept instead of the clusters themselves so they can be reapplied after every redraw.
+
+export type ClusterRule =
+  | { kind: 'type'; type: string }
+  | { kind: 'subnet'; subnet: string } // First three octets of the /24, e.g. "10.20.1"
+  | { kind: 'children'; parentId: string };
+
+export type ClusterKind = ClusterRule['kind'];
+
+// Worst first - the cluster node takes the status of its worst member
+const STATUS_SEVERITY: Device['status'][] = ['offline', 'warning', 'unknown', 'online'];
+
+export const getSubnet24 = (ip?: string): string | null => {
+  const match = ip?.match(/^(\d{1,3}\.\d{1,3}\.\d{1,3})\.\d{1,3}$/);
+  return match ? match[1] : null;
+};
+
+// Stable IDs so a rule maps to the same cluster node every time it is reapplied
+export const getClusterId = (rule: ClusterRule): string => {
+  switch (rule.kind) {
+    case 'type': return `cluster:type:${rule.type}`;
+    case 'subnet': return `cluster:subnet:${rule.subnet}`;
+    case 'children': return `cluster:children:${rule.parentId}`;
+  }
+};
+
+// Rule for the group a device belongs to, or null when it has no such group (e.g. no IPv4 address)
+export const getClusterRuleFor = (kind: ClusterKind, node: TopologyNode): ClusterRule | null => {
+  switch (kind) {
+    case 'type': return { kind: 'type', type: node.type || '' };
+    case 'subnet': {
+      const subnet = getSubnet24(node.ip);
+      return subnet ? { kind: 'subnet', subnet } : null;
+    }
+    case 'children': return { kind: 'children', parentId: node.id };
+  }
+};
+
+export const getClusterMembers = (rule: ClusterRule, nodes: TopologyNode[], edges: TopologyEdge[]): string[] => {
+  switch (rule.kind) {
+    case 'type':
+      return nodes.filter(node => (node.type || '') === rule.type).map(node => node.id);
+    case 'subnet':
+      return nodes.filter(node => getSubnet24(node.ip) === rule.subnet).map(node => node.id);
+    case 'children': {
+      const nodeIds = new Set(nodes.map(node => node.id));
+      const childIds = new Set(edges
+        .filter(edge => edge.source === rule.parentId && edge.target !== rule.parentId && nodeIds.has(edge.target))
+        .map(edge => edge.target));
+      return Array.from(childIds);
+    }
+  }
+};
+
+// One rule per type or /24 on the canvas that has at least two devices to collapse
+export const buildClusterRules = (kind: 'type' | 'subnet', nodes: TopologyNode[]): ClusterRule[] => {
+  const counts = new Map<string, { rule: ClusterRule; count: number }>();
+  nodes.forEach(node => {
+    const rule = getClusterRuleFor(kind, node);
+    if (!rule) return;
+    const id = getClusterId(rule);
+    const entry = counts.get(id);
+    if (entry) {
+      entry.count++;
+    } else {
+      counts.set(id, { rule, count: 1 });
+    }
+  });
+  return Array.from(counts.values()).filter(entry => entry.count > 1).map(entry => entry.rule);
+};
+
+export const describeClusterRule = (rule: ClusterRule, nodes: TopologyNode[]): string => {
+  switch (rule.kind) {
+    case 'type': return rule.type || 'Unknown type';
+    case 'subnet': return `${rule.subnet}.0/24`;
+    case 'children': {
+      const parent = nodes.find(node => node.id === rule.parentId);
+      return `${parent?.label || rule.parentId} children`;
+    }
+  }
+};
+
+export const getWorstStatus = (statuses: Device['status'][]): Device['status'] =>
+  statuses.reduce<Device['status']>(
+    (worst, status) => (STATUS_SEVERITY.indexOf(status) < STATUS_SEVERITY.indexOf(worst) ? status : worst),
+    'online'
+  );
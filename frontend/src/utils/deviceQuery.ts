@@ -0,0 +1,259 @@
+import { Device } from '../services/api';
+
+// Structured device search shared by the inventory and the canvas search, e.g.
+//   name:core* type:router status:offline ip:10.20.0.0/16 org:acme
+//   (type:switch OR type:router) -status:online
+// Terms next to each other are ANDed. OR binds looser than AND, and NOT or a leading "-"
+// negates a term or a group (operators are upper case). Values may be quoted and use * and ?
+// wildcards. A value without wildcards matches a substring of name, type and org, the start
+// of an IP, and the whole status or ID. ip also takes CIDR ranges. A bare word searches the name.
+
+// Tooltip for the search inputs
+export const DEVICE_QUERY_HELP = 'Fields: name, type, status, ip, org, id (e.g. ip:10.20.0.0/16)\n' +
+  'Wildcards: * and ?   Negate: -term or NOT   Combine: AND (default), OR, ( )';
+
+export type DeviceQueryField = 'name' | 'type' | 'status' | 'ip' | 'org' | 'id';
+
+export type DeviceQuery =
+  | { op: 'term'; field: DeviceQueryField; value: string }
+  | { op: 'and'; operands: DeviceQuery[] }
+  | { op: 'or'; operands: DeviceQuery[] }
+  | { op: 'not'; operand: DeviceQuery };
+
+// Fields a device is matched on - topology nodes are adapted to this shape by the canvas
+export interface QueryableDevice {
+  id: string;
+  name: string;
+  type: string;
+  status: Device['status'];
+  ip: string;
+  organization?: { id: string; name: string } | null;
+}
+
+const FIELD_ALIASES: { [alias: string]: DeviceQueryField } = {
+  name: 'name',
+  type: 'type',
+  class: 'type',
+  status: 'status',
+  ip: 'ip',
+  org: 'org',
+  organization: 'org',
+  id: 'id',
+};
+
+const STATUSES: Device['status'][] = ['online', 'offline', 'warning', 'unknown'];
+
+// Keeps queries sent to the backend bounded
+const MAX_TERMS = 50;
+
+type Token =
+  | { kind: 'word'; value: string; quoted: boolean; colon: number; position: number }
+  | { kind: 'lparen'; position: number }
+  | { kind: 'rparen'; position: number }
+  | { kind: 'minus'; position: number };
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push(char === '(' ? { kind: 'lparen', position: i } : { kind: 'rparen', position: i });
+      i++;
+    } else if (char === '-' && (tokens.length === 0 || /[\s(]/.test(text[i - 1]))) {
+      tokens.push({ kind: 'minus', position: i });
+      i++;
+    } else {
+      // A word runs to whitespace or a parenthesis, with quoted sections kept whole
+      const start = i;
+      let value = '';
+      let quoted = false;
+      // Only a colon outside quotes separates the field from the value
+      let colon = -1;
+      while (i < text.length && !/[\s()]/.test(text[i])) {
+        if (text[i] === '"') {
+          const end = text.indexOf('"', i + 1);
+          if (end === -1) throw new Error(`Unterminated quote at position ${i + 1}`);
+          value += text.slice(i + 1, end);
+          quoted = true;
+          i = end + 1;
+        } else {
+          if (text[i] === ':' && colon === -1 && !quoted) colon = value.length;
+          value += text[i++];
+        }
+      }
+      tokens.push({ kind: 'word', value, quoted, colon, position: start });
+    }
+  }
+  return tokens;
+};
+
+const isOperator = (token: Token | undefined, operator: 'AND' | 'OR' | 'NOT'): boolean =>
+  token?.kind === 'word' && !token.quoted && token.value === operator;
+
+export const parseCidr = (value: string): { network: number; mask: number } | null => {
+  const match = value.match(/^(\d{1,3}(?:\.\d{1,3}){3})\/(\d{1,2})$/);
+  if (!match) return null;
+  const address = ipToNumber(match[1]);
+  const bits = Number(match[2]);
+  if (address === null || bits > 32) return null;
+  const mask = bits === 0 ? 0 : (0xffffffff << (32 - bits)) >>> 0;
+  return { network: (address & mask) >>> 0, mask };
+};
+
+const ipToNumber = (ip: string): number | null => {
+  const octets = ip.split('.');
+  if (octets.length !== 4 || octets.some(octet => !/^\d{1,3}$/.test(octet) || Number(octet) > 255)) return null;
+  return octets.reduce((total, octet) => total * 256 + Number(octet), 0);
+};
+
+const validateTerm = (field: DeviceQueryField, value: string, position: number) => {
+  if (field === 'status' && !/[*?]/.test(value) && !STATUSES.includes(value.toLowerCase() as Device['status'])) {
+    throw new Error(`Unknown status "${value}" at position ${position + 1} - use ${STATUSES.join(', ')}`);
+  }
+  if (field === 'ip' && value.includes('/') && !parseCidr(value)) {
+    throw new Error(`Invalid CIDR range "${value}" at position ${position + 1}`);
+  }
+};
+
+// Recursive descent over: or := and (OR and)* ; and := unary ((AND)? unary)* ;
+// unary := (NOT | -) unary | ( or ) | term
+export const parseDeviceQuery = (text: string): DeviceQuery | null => {
+  const tokens = tokenize(text);
+  if (tokens.length === 0) return null;
+  let index = 0;
+  let termCount = 0;
+
+  const describe = (token: Token | undefined) => token
+    ? `"${token.kind === 'word' ? token.value : token.kind === 'minus' ? '-' : token.kind === 'lparen' ? '(' : ')'}" at position ${token.position + 1}`
+    : 'end of query';
+
+  const parseOr = (): DeviceQuery => {
+    const operands = [parseAnd()];
+    while (isOperator(tokens[index], 'OR')) {
+      index++;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { op: 'or', operands };
+  };
+
+  const parseAnd = (): DeviceQuery => {
+    const operands = [parseUnary()];
+    while (index < tokens.length && tokens[index].kind !== 'rparen' && !isOperator(tokens[index], 'OR')) {
+      if (isOperator(tokens[index], 'AND')) index++;
+      operands.push(parseUnary());
+    }
+    return operands.length === 1 ? operands[0] : { op: 'and', operands };
+  };
+
+  const parseUnary = (): DeviceQuery => {
+    const token = tokens[index];
+    if (!token || token.kind === 'rparen' || isOperator(token, 'AND') || isOperator(token, 'OR')) {
+      throw new Error(`Expected a search term but found ${describe(token)}`);
+    }
+    if (token.kind === 'minus' || isOperator(token, 'NOT')) {
+      index++;
+      return { op: 'not', operand: parseUnary() };
+    }
+    if (token.kind === 'lparen') {
+      index++;
+      const group = parseOr();
+      if (tokens[index]?.kind !== 'rparen') {
+        throw new Error(`Missing ")" for "(" at position ${token.position + 1}`);
+      }
+      index++;
+      return group;
+    }
+    return parseTerm(token);
+  };
+
+  const parseTerm = (token: Extract<Token, { kind: 'word' }>): DeviceQuery => {
+    index++;
+    if (++termCount > MAX_TERMS) {
+      throw new Error(`Queries are limited to ${MAX_TERMS} terms`);
+    }
+
+    const { colon } = token;
+    if (colon === -1) {
+      return { op: 'term', field: 'name', value: token.value };
+    }
+
+    const alias = token.value.slice(0, colon).toLowerCase();
+    const field = FIELD_ALIASES[alias];
+    if (!field) {
+      throw new Error(`Unknown field "${alias}" at position ${token.position + 1} - use name, type, status, ip, org or id`);
+    }
+    const value = token.value.slice(colon + 1);
+    if (!value) {
+      throw new Error(`Missing value for "${alias}:" at position ${token.position + 1}`);
+    }
+    validateTerm(field, value, token.position);
+    return { op: 'term', field, value };
+  };
+
+  const query = parseOr();
+  if (index < tokens.length) {
+    throw new Error(`Unexpected ${describe(tokens[index])}`);
+  }
+  return query;
+};
+
+// True for queries that are a single bare word - the plain name search
+export const isPlainNameQuery = (query: DeviceQuery | null): boolean =>
+  query === null || (query.op === 'term' && query.field === 'name' && !/[*?]/.test(query.value));
+
+const wildcardCache = new Map<string, RegExp>();
+const wildcardToRegExp = (pattern: string): RegExp => {
+  let regExp = wildcardCache.get(pattern);
+  if (!regExp) {
+    const source = pattern
+      .split('')
+      .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+      .join('');
+    regExp = new RegExp(`^${source}$`, 'i');
+    wildcardCache.set(pattern, regExp);
+  }
+  return regExp;
+};
+
+const matchesText = (text: string, value: string, whole: boolean): boolean => {
+  if (/[*?]/.test(value)) return wildcardToRegExp(value).test(text);
+  return whole ? text.toLowerCase() === value.toLowerCase() : text.toLowerCase().includes(value.toLowerCase());
+};
+
+const matchesIp = (ip: string, value: string): boolean => {
+  if (value.includes('/')) {
+    const range = parseCidr(value);
+    const address = ipToNumber(ip);
+    return !!range && address !== null && ((address & range.mask) >>> 0) === range.network;
+  }
+  if (/[*?]/.test(value)) return wildcardToRegExp(value).test(ip);
+  return ip.startsWith(value);
+};
+
+export const matchesDeviceQuery = (query: DeviceQuery | null, device: QueryableDevice): boolean => {
+  if (!query) return true;
+  switch (query.op) {
+    case 'and':
+      return query.operands.every(operand => matchesDeviceQuery(operand, device));
+    case 'or':
+      return query.operands.some(operand => matchesDeviceQuery(operand, device));
+    case 'not':
+      return !matchesDeviceQuery(query.operand, device);
+    case 'term':
+      switch (query.field) {
+        case 'name': return matchesText(device.name, query.value, false);
+        case 'type': return matchesText(device.type, query.value, false);
+        case 'status': return matchesText(device.status, query.value, true);
+        case 'ip': return matchesIp(device.ip, query.value);
+        case 'org': return !!device.organization && (
+          matchesText(device.organization.name, query.value, false) || device.organization.id === query.value
+        );
+        case 'id': return matchesText(device.id, query.value, true);
+      }
+  }
+  return false;
+};
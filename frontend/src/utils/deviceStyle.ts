@@ -0,0 +1,24 @@
+// Device styling shared by the canvas and its exporters
+
+export const getDeviceIcon = (type: string): string => {
+  const lowerType = type?.toLowerCase() || '';
+  
+  if (lowerType.includes('router')) return '🔀';
+  if (lowerType.includes('switch')) return '🔌';
+  if (lowerType.includes('server')) return '🖥️';
+  if (lowerType.includes('firewall')) return '🛡️';
+  if (lowerType.includes('load')) return '⚖️';
+  if (lowerType.includes('storage')) return '💾';
+  if (lowerType.includes('database')) return '🗄️';
+  
+  return '📡';
+};
+
+export const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'online': return '#6b7280';
+    case 'offline': return '#ef4444';
+    case 'warning': return '#f59e0b';
+    default: return '#6b7280';
+  }
+};
@@ -0,0 +1,25 @@
+// Shared helpers for browser file downloads
+
+// Build a filename like "topology-2025-09-02T10-15-30.png"
+export const timestampedFilename = (prefix: string, extension: string): string => {
+  return `${prefix}-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.${extension}`;
+};
+
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string): void => {
+  const blob = new Blob([content], { type: mimeType });
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = URL.createObjectURL(blob);
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+// Read a user-selected file as text (used by the various import paths)
+export const readFileAsText = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`Failed to read ${file.name}`));
+    reader.readAsText(file);
+  });
+};
@@ -0,0 +1,47 @@
+import { DeviceEvent, EventSeverity } from '../services/api';
+
+// Open event helpers shared by the node badges, the events panel and device details
+
+// Most severe first
+export const SEVERITY_ORDER: EventSeverity[] = ['critical', 'major', 'minor', 'notice'];
+
+export const SEVERITY_COLORS: Record<EventSeverity, string> = {
+  critical: '#dc2626',
+  major: '#ea580c',
+  minor: '#eab308',
+  notice: '#3b82f6',
+};
+
+export const SEVERITY_LABELS: Record<EventSeverity, string> = {
+  critical: 'Critical',
+  major: 'Major',
+  minor: 'Minor',
+  notice: 'Notice',
+};
+
+// Higher is more severe - for sorting and "at least" filters
+export const severityRank = (severity: EventSeverity): number =>
+  SEVERITY_ORDER.length - SEVERITY_ORDER.indexOf(severity);
+
+export interface DeviceEventSummary {
+  highest: EventSeverity;
+  count: number;
+  events: DeviceEvent[]; // Most severe, then most recent first
+}
+
+export const summarizeEvents = (events: DeviceEvent[]): Map<string, DeviceEventSummary> => {
+  const byDevice = new Map<string, DeviceEvent[]>();
+  events.forEach(event => {
+    if (!byDevice.has(event.deviceId)) byDevice.set(event.deviceId, []);
+    byDevice.get(event.deviceId)!.push(event);
+  });
+
+  const summaries = new Map<string, DeviceEventSummary>();
+  byDevice.forEach((deviceEvents, deviceId) => {
+    const sorted = [...deviceEvents].sort((a, b) =>
+      severityRank(b.severity) - severityRank(a.severity) || b.lastSeen.localeCompare(a.lastSeen)
+    );
+    summaries.set(deviceId, { highest: sorted[0].severity, count: sorted.length, events: sorted });
+  });
+  return summaries;
+};
@@ -0,0 +1,263 @@
+import { TopologyEdge } from '../services/api';
+
+// Pure graph helpers over topology edges (source = parent, target = child)
+
+// Build an adjacency list; undirected graphs link both endpoints of every edge
+const buildAdjacency = (edges: TopologyEdge[], directed: boolean): Map<string, string[]> => {
+  const adjacency = new Map<string, string[]>();
+  const link = (from: string, to: string) => {
+    if (!adjacency.has(from)) {
+      adjacency.set(from, []);
+    }
+    adjacency.get(from)!.push(to);
+  };
+
+  edges.forEach(edge => {
+    link(edge.source, edge.target);
+    if (!directed) {
+      link(edge.target, edge.source);
+    }
+  });
+  return adjacency;
+};
+
+// Breadth-first search for the shortest hop path - returns node IDs from source to target, or null
+export const findShortestPath = (
+  edges: TopologyEdge[],
+  sourceId: string,
+  targetId: string,
+  directed: boolean
+): string[] | null => {
+  if (sourceId === targetId) return [sourceId];
+
+  const adjacency = buildAdjacency(edges, directed);
+  const previous = new Map<string, string>();
+  const visited = new Set<string>([sourceId]);
+  const queue: string[] = [sourceId];
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    for (const neighbor of adjacency.get(nodeId) || []) {
+      if (visited.has(neighbor)) continue;
+      visited.add(neighbor);
+      previous.set(neighbor, nodeId);
+
+      if (neighbor === targetId) {
+        // Walk back from the target to rebuild the path
+        const path = [targetId];
+        let current = targetId;
+        while (previous.has(current)) {
+          current = previous.get(current)!;
+          path.unshift(current);
+        }
+        return path;
+      }
+      queue.push(neighbor);
+    }
+  }
+
+  return null;
+};
+
+// Edge keys ("source-target") along a path, matching whichever direction the edge exists in
+export const getPathEdgeKeys = (edges: TopologyEdge[], path: string[]): Set<string> => {
+  const edgeKeys = new Set(edges.map(edge => `${edge.source}-${edge.target}`));
+  const pathEdgeKeys = new Set<string>();
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const forward = `${path[i]}-${path[i + 1]}`;
+    const backward = `${path[i + 1]}-${path[i]}`;
+    if (edgeKeys.has(forward)) pathEdgeKeys.add(forward);
+    if (edgeKeys.has(backward)) pathEdgeKeys.add(backward);
+  }
+  return pathEdgeKeys;
+};
+
+// Nodes reachable from the given start nodes following parent → child edges, never entering `blockedId`
+const reachableFrom = (
+  children: Map<string, string[]>,
+  startIds: string[],
+  blockedId?: string
+): Set<string> => {
+  const visited = new Set<string>();
+  const queue = startIds.filter(id => id !== blockedId);
+  queue.forEach(id => visited.add(id));
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    for (const childId of children.get(nodeId) || []) {
+      if (childId === blockedId || visited.has(childId)) continue;
+      visited.add(childId);
+      queue.push(childId);
+    }
+  }
+  return visited;
+};
+
+// Blast radius: downstream nodes that lose every path to a root when `deviceId` is removed.
+// Roots are nodes without parents; parentless cycles get one of their members as a root.
+export const computeImpact = (
+  nodeIds: string[],
+  edges: TopologyEdge[],
+  deviceId: string
+): string[] => {
+  const children = buildAdjacency(edges, true);
+  const hasParent = new Set(edges.map(edge => edge.target));
+
+  const roots = nodeIds.filter(id => !hasParent.has(id));
+  const covered = reachableFrom(children, roots);
+  nodeIds.forEach(id => {
+    // Skip the removed device so a cycle it belongs to doesn't depend on it as its root
+    if (!covered.has(id) && id !== deviceId) {
+      roots.push(id);
+      reachableFrom(children, [id]).forEach(reached => covered.add(reached));
+    }
+  });
+
+  const downstream = reachableFrom(children, [deviceId]);
+  downstream.delete(deviceId);
+  const stillReachable = reachableFrom(children, roots, deviceId);
+
+  return Array.from(downstream).filter(id => !stillReachable.has(id));
+};
+
+export interface SeedOrigin {
+  seedId: string;
+  depth: number;
+}
+
+// Hop distance from the nearest seed device, following each seed's fetch direction.
+// Seeds are searched together so a node is credited to whichever seed reaches it first.
+export const computeSeedOrigins = (
+  edges: TopologyEdge[],
+  seeds: { id: string; direction: 'parents' | 'children' | 'both' }[]
+): Map<string, SeedOrigin> => {
+  const children = buildAdjacency(edges, true);
+  const parents = buildAdjacency(edges.map(edge => ({ source: edge.target, target: edge.source })), true);
+  const origins = new Map<string, SeedOrigin>();
+  const queue: { id: string; seedIndex: number }[] = [];
+
+  seeds.forEach((seed, seedIndex) => {
+    if (origins.has(seed.id)) return;
+    origins.set(seed.id, { seedId: seed.id, depth: 0 });
+    queue.push({ id: seed.id, seedIndex });
+  });
+
+  while (queue.length > 0) {
+    const { id, seedIndex } = queue.shift()!;
+    const { direction } = seeds[seedIndex];
+    const depth = origins.get(id)!.depth + 1;
+    const neighbors = [
+      ...(direction !== 'parents' ? children.get(id) || [] : []),
+      ...(direction !== 'children' ? parents.get(id) || [] : []),
+    ];
+    neighbors.forEach(neighborId => {
+      if (origins.has(neighborId)) return;
+      origins.set(neighborId, { seedId: seeds[seedIndex].id, depth });
+      queue.push({ id: neighborId, seedIndex });
+    });
+  }
+  return origins;
+};
+
+export interface CauseCandidate {
+  id: string;
+  // Failing devices below this ancestor
+  coveredIds: string[];
+  // All devices below this ancestor in the loaded graph
+  descendantCount: number;
+}
+
+// Common-upstream analysis: walk parents from every failing node and rank ancestors by how many
+// failing descendants they cover. Ties prefer the more specific ancestor (fewer descendants).
+export const rankCommonAncestors = (
+  edges: TopologyEdge[],
+  failingIds: string[],
+  minCovered: number = 2
+): CauseCandidate[] => {
+  const parents = buildAdjacency(edges.map(edge => ({ source: edge.target, target: edge.source })), true);
+  const children = buildAdjacency(edges, true);
+  const covered = new Map<string, string[]>();
+
+  failingIds.forEach(failingId => {
+    reachableFrom(parents, [failingId]).forEach(ancestorId => {
+      if (ancestorId === failingId) return;
+      if (!covered.has(ancestorId)) {
+        covered.set(ancestorId, []);
+      }
+      covered.get(ancestorId)!.push(failingId);
+    });
+  });
+
+  return Array.from(covered.entries())
+    .filter(([, coveredIds]) => coveredIds.length >= minCovered)
+    .map(([id, coveredIds]) => ({
+      id,
+      coveredIds,
+      descendantCount: reachableFrom(children, [id]).size - 1,
+    }))
+    .sort((a, b) => b.coveredIds.length - a.coveredIds.length || a.descendantCount - b.descendantCount);
+};
+
+export interface CollapsedSubtrees {
+  hiddenIds: Set<string>;
+  // Hidden descendants per visible collapsed node - shown as its "+N" badge
+  hiddenCounts: Map<string, number>;
+  // Visible collapsed node each hidden device is counted under
+  hiddenBy: Map<string, string>;
+}
+
+// Collapsing a node hides every descendant that has no other path down from a root.
+// Roots are chosen as in computeImpact so parentless cycles stay on the canvas.
+export const computeCollapsedSubtrees = (
+  nodeIds: string[],
+  edges: TopologyEdge[],
+  collapsedIds: Set<string>
+): CollapsedSubtrees => {
+  const hiddenCounts = new Map<string, number>();
+  const hiddenBy = new Map<string, string>();
+  if (collapsedIds.size === 0) return { hiddenIds: new Set(), hiddenCounts, hiddenBy };
+
+  const children = buildAdjacency(edges, true);
+  const hasParent = new Set(edges.map(edge => edge.target));
+  const roots = nodeIds.filter(id => !hasParent.has(id));
+  const covered = reachableFrom(children, roots);
+  nodeIds.forEach(id => {
+    if (!covered.has(id)) {
+      roots.push(id);
+      reachableFrom(children, [id]).forEach(reached => covered.add(reached));
+    }
+  });
+
+  // Walk down from the roots without passing below a collapsed node
+  const visible = new Set(roots);
+  const queue = [...roots];
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (collapsedIds.has(nodeId)) continue;
+    for (const childId of children.get(nodeId) || []) {
+      if (visible.has(childId)) continue;
+      visible.add(childId);
+      queue.push(childId);
+    }
+  }
+
+  // Each hidden device counts once, for the first collapsed node the walk reached that hides it,
+  // so the badges add up to the number of hidden devices
+  const hiddenIds = new Set(nodeIds.filter(id => !visible.has(id)));
+  visible.forEach(id => {
+    if (!collapsedIds.has(id)) return;
+    let count = 0;
+    const pending = [id];
+    while (pending.length > 0) {
+      for (const childId of children.get(pending.pop()!) || []) {
+        if (!hiddenIds.has(childId) || hiddenBy.has(childId)) continue;
+        hiddenBy.set(childId, id);
+        count++;
+        pending.push(childId);
+      }
+    }
+    if (count > 0) hiddenCounts.set(id, count);
+  });
+  return { hiddenIds, hiddenCounts, hiddenBy };
+};
@@ -0,0 +1,358 @@
+import { TopologyEdge, TopologyNode } from '../services/api';
+import { SeedOrigin } from './graph';
+import { getRelationshipType } from './relationships';
+
+// Serializers that write the canvas topology to graph-analysis file formats
+
+export interface ExportNode extends TopologyNode {
+  x: number;
+  y: number;
+}
+
+export interface ExportGraph {
+  nodes: ExportNode[];
+  edges: TopologyEdge[]; // source = parent, target = child
+  // Hierarchical layout level per node, when the canvas has one
+  levels?: Map<string, number>;
+  // Which seed device brought each node onto the canvas, and how many hops away
+  seedOrigins?: Map<string, SeedOrigin>;
+}
+
+export const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// GraphML with typed keys, plus yEd node graphics so yEd reopens the same layout
+export const toGraphML = (graph: ExportGraph): string => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns"',
+    '    xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '    xmlns:y="http://www.yworks.com/xml/graphml"',
+    '    xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="type" for="node" attr.name="type" attr.type="string"/>',
+    '  <key id="status" for="node" attr.name="status" attr.type="string"/>',
+    '  <key id="ip" for="node" attr.name="ip" attr.type="string"/>',
+    '  <key id="x" for="node" attr.name="x" attr.type="double"/>',
+    '  <key id="y" for="node" attr.name="y" attr.type="double"/>',
+    '  <key id="graphics" for="node" yfiles.type="nodegraphics"/>',
+    '  <key id="relationship" for="edge" attr.name="relationship" attr.type="string"/>',
+    '  <graph id="topology" edgedefault="directed">',
+  ];
+
+  graph.nodes.forEach(node => {
+    lines.push(
+      `    <node id="${escapeXml(node.id)}">`,
+      `      <data key="label">${escapeXml(node.label)}</data>`,
+      `      <data key="type">${escapeXml(node.type)}</data>`,
+      `      <data key="status">${escapeXml(node.status)}</data>`,
+      `      <data key="ip">${escapeXml(node.ip)}</data>`,
+      `      <data key="x">${round(node.x)}</data>`,
+      `      <data key="y">${round(node.y)}</data>`,
+      '      <data key="graphics">',
+      '        <y:ShapeNode>',
+      // yEd geometry is the top-left corner, vis positions are node centres
+      `          <y:Geometry x="${round(node.x - 60)}" y="${round(node.y - 30)}" width="120" height="60"/>`,
+      `          <y:NodeLabel>${escapeXml(node.label)}</y:NodeLabel>`,
+      '        </y:ShapeNode>',
+      '      </data>',
+      '    </node>'
+    );
+  });
+
+  graph.edges.forEach((edge, index) => {
+    lines.push(
+      `    <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" directed="true">`,
+      `      <data key="relationship">${getRelationshipType(edge)}</data>`,
+      '    </edge>'
+    );
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n');
+};
+
+// GEXF 1.3 with declared node attributes and viz positions for Gephi
+export const toGEXF = (graph: ExportGraph): string => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}">`,
+    '    <creator>SL1 Topology</creator>',
+    '  </meta>',
+    '  <graph mode="static" defaultedgetype="directed">',
+    '    <attributes class="node">',
+    '      <attribute id="type" title="type" type="string"/>',
+    '      <attribute id="status" title="status" type="string"/>',
+    '      <attribute id="ip" title="ip" type="string"/>',
+    '    </attributes>',
+    '    <attributes class="edge">',
+    '      <attribute id="relationship" title="relationship" type="string"/>',
+    '    </attributes>',
+    '    <nodes>',
+  ];
+
+  graph.nodes.forEach(node => {
+    lines.push(
+      `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.label)}">`,
+      '        <attvalues>',
+      `          <attvalue for="type" value="${escapeXml(node.type)}"/>`,
+      `          <attvalue for="status" value="${escapeXml(node.status)}"/>`,
+      `          <attvalue for="ip" value="${escapeXml(node.ip)}"/>`,
+      '        </attvalues>',
+      // Gephi's y axis points up, the canvas y axis points down
+      `        <viz:position x="${round(node.x)}" y="${round(-node.y)}" z="0"/>`,
+      '      </node>'
+    );
+  });
+
+  lines.push('    </nodes>', '    <edges>');
+  graph.edges.forEach((edge, index) => {
+    lines.push(
+      `      <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" type="directed">`,
+      '        <attvalues>',
+      `          <attvalue for="relationship" value="${getRelationshipType(edge)}"/>`,
+      '        </attvalues>',
+      '      </edge>'
+    );
+  });
+  lines.push('    </edges>', '  </graph>', '</gexf>');
+  return lines.join('\n');
+};
+
+// draw.io palette per status (fill, stroke) - also used for DOT so both formats match
+const STATUS_FILL_COLORS: Record<TopologyNode['status'], [string, string]> = {
+  online: ['#d5e8d4', '#82b366'],
+  warning: ['#fff2cc', '#d6b656'],
+  offline: ['#f8cecc', '#b85450'],
+  unknown: ['#f5f5f5', '#666666'],
+};
+
+// draw.io shape per device type, mirroring the type icons on the canvas
+const getDrawioShape = (type: string): string => {
+  const lowerType = type?.toLowerCase() || '';
+
+  if (lowerType.includes('router')) return 'ellipse;';
+  if (lowerType.includes('firewall')) return 'shape=hexagon;perimeter=hexagonPerimeter2;';
+  if (lowerType.includes('load')) return 'rhombus;';
+  if (lowerType.includes('storage') || lowerType.includes('database')) return 'shape=cylinder3;boundedLbl=1;size=8;';
+  if (lowerType.includes('server')) return '';
+  return 'rounded=1;';
+};
+
+// draw.io (mxGraph) diagram - uncompressed so it opens directly in diagrams.net
+export const toDrawio = (graph: ExportGraph): string => {
+  const width = 120;
+  const height = 60;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<mxfile host="SL1 Topology" modified="${new Date().toISOString()}" type="device">`,
+    '  <diagram id="topology" name="Topology">',
+    '    <mxGraphModel grid="1" gridSize="10" guides="1" connect="1" arrows="1" page="0" math="0" shadow="0">',
+    '      <root>',
+    '        <mxCell id="0"/>',
+    '        <mxCell id="1" parent="0"/>',
+  ];
+
+  // Cell ids are prefixed so device ids can never collide with the two root cells
+  graph.nodes.forEach(node => {
+    const [fill, stroke] = STATUS_FILL_COLORS[node.status] || STATUS_FILL_COLORS.unknown;
+    const style = `${getDrawioShape(node.type)}whiteSpace=wrap;html=0;fillColor=${fill};strokeColor=${stroke};`;
+    const value = `${escapeXml(node.label)}&#10;${escapeXml(node.ip)}`;
+    lines.push(
+      `        <mxCell id="n${escapeXml(node.id)}" value="${value}" style="${style}" vertex="1" parent="1">`,
+      // mxGeometry is the top-left corner, vis positions are node centres
+      `          <mxGeometry x="${round(node.x - width / 2)}" y="${round(node.y - height / 2)}" width="${width}" height="${height}" as="geometry"/>`,
+      '        </mxCell>'
+    );
+  });
+
+  graph.edges.forEach((edge, index) => {
+    lines.push(
+      `        <mxCell id="e${index}" style="endArrow=classic;html=1;rounded=0;" edge="1" parent="1" source="n${escapeXml(edge.source)}" target="n${escapeXml(edge.target)}">`,
+      '          <mxGeometry relative="1" as="geometry"/>',
+      '        </mxCell>'
+    );
+  });
+
+  lines.push('      </root>', '    </mxGraphModel>', '  </diagram>', '</mxfile>');
+  return lines.join('\n');
+};
+
+const escapeDot = (text: string): string => text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+// Graphviz DOT - parent → child edges, rank=same groups from the hierarchical levels and
+// pinned positions (pos="x,y!") for neato/fdp. Device fields and relationship types are kept
+// as custom attributes so the file can be imported back.
+export const toDot = (graph: ExportGraph): string => {
+  const lines = [
+    'digraph topology {',
+    '  graph [rankdir=TB];',
+    '  node [shape=box, style="rounded,filled", fontname="Arial"];',
+    '',
+  ];
+
+  graph.nodes.forEach(node => {
+    const [fill, stroke] = STATUS_FILL_COLORS[node.status] || STATUS_FILL_COLORS.unknown;
+    const attributes = [
+      `label="${escapeDot(node.label)}\\n${escapeDot(node.ip)}"`,
+      `name="${escapeDot(node.label)}"`,
+      `type="${escapeDot(node.type)}"`,
+      `status="${node.status}"`,
+      `ip="${escapeDot(node.ip)}"`,
+      `fillcolor="${fill}"`,
+      `color="${stroke}"`,
+      // Graphviz's y axis points up, the canvas y axis points down
+      `pos="${round(node.x)},${round(-node.y)}!"`,
+    ];
+    lines.push(`  "${escapeDot(node.id)}" [${attributes.join(', ')}];`);
+  });
+
+  if (graph.levels && graph.levels.size > 0) {
+    const byLevel = new Map<number, string[]>();
+    graph.levels.forEach((level, nodeId) => {
+      if (!byLevel.has(level)) byLevel.set(level, []);
+      byLevel.get(level)!.push(nodeId);
+    });
+    lines.push('');
+    Array.from(byLevel.keys()).sort((a, b) => a - b).forEach(level => {
+      const members = byLevel.get(level)!.map(id => `"${escapeDot(id)}";`).join(' ');
+      lines.push(`  { rank=same; ${members} }`);
+    });
+  }
+
+  lines.push('');
+  graph.edges.forEach(edge => {
+    lines.push(`  "${escapeDot(edge.source)}" -> "${escapeDot(edge.target)}" [type="${getRelationshipType(edge)}"];`);
+  });
+
+  lines.push('}');
+  return lines.join('\n');
+};
+
+// RFC 4180 quoting - also neutralises leading =, +, - and @ so spreadsheets don't run formulas
+const toCsvCell = (value: string | number): string => {
+  let text = String(value);
+  if (/^[=+\-@]/.test(text) && !/^-?\d/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: (string | number)[][]): string =>
+  rows.map(row => row.map(toCsvCell).join(',')).join('\r\n') + '\r\n';
+
+// Device table for audits - one row per node with the seed that introduced it
+export const toNodeCsv = (graph: ExportGraph): string => {
+  const names = new Map(graph.nodes.map(node => [node.id, node.label]));
+  return toCsv([
+    ['id', 'name', 'ip', 'type', 'status', 'organization', 'depth_from_seed', 'seed_id', 'seed_name'],
+    ...graph.nodes.map(node => {
+      const origin = graph.seedOrigins?.get(node.id);
+      return [
+        node.id,
+        node.label,
+        node.ip,
+        node.type,
+        node.status,
+        node.organization?.name || '',
+        origin ? origin.depth : '',
+        origin ? origin.seedId : '',
+        origin ? names.get(origin.seedId) || '' : '',
+      ];
+    }),
+  ]);
+};
+
+// Link table - one row per parent → child relationship
+export const toEdgeCsv = (graph: ExportGraph): string => {
+  const names = new Map(graph.nodes.map(node => [node.id, node.label]));
+  return toCsv([
+    ['parent_id', 'parent_name', 'child_id', 'child_name', 'relationship_type'],
+    ...graph.edges.map(edge => [
+      edge.source,
+      names.get(edge.source) || '',
+      edge.target,
+      names.get(edge.target) || '',
+      getRelationshipType(edge),
+    ]),
+  ]);
+};
+
+export type DataExportFormat = 'graphml' | 'gexf' | 'drawio' | 'dot' | 'csv';
+
+export interface ExportFile {
+  // Appended to the download filename, e.g. "topology-nodes-<timestamp>.csv"
+  suffix?: string;
+  content: string;
+}
+
+export interface DataExportOption {
+  format: DataExportFormat;
+  label: string;
+  description: string;
+  extension: string;
+  mimeType: string;
+  // Export only the selected nodes (and the edges between them) when there is a selection
+  respectsSelection?: boolean;
+  serialize: (graph: ExportGraph) => ExportFile[];
+}
+
+const singleFile = (serialize: (graph: ExportGraph) => string) =>
+  (graph: ExportGraph): ExportFile[] => [{ content: serialize(graph) }];
+
+// Data formats offered by the canvas export menu
+export const DATA_EXPORT_OPTIONS: DataExportOption[] = [
+  {
+    format: 'graphml',
+    label: 'GraphML',
+    description: 'yEd, Cytoscape, NetworkX',
+    extension: 'graphml',
+    mimeType: 'application/graphml+xml',
+    serialize: singleFile(toGraphML),
+  },
+  {
+    format: 'gexf',
+    label: 'GEXF',
+    description: 'Gephi',
+    extension: 'gexf',
+    mimeType: 'application/xml',
+    serialize: singleFile(toGEXF),
+  },
+  {
+    format: 'drawio',
+    label: 'draw.io',
+    description: 'diagrams.net, editable diagram',
+    extension: 'drawio',
+    mimeType: 'application/xml',
+    serialize: singleFile(toDrawio),
+  },
+  {
+    format: 'dot',
+    label: 'Graphviz DOT',
+    description: 'dot, neato, CI docs',
+    extension: 'dot',
+    mimeType: 'text/vnd.graphviz',
+    serialize: singleFile(toDot),
+  },
+  {
+    format: 'csv',
+    label: 'CSV tables',
+    description: 'Node and edge lists, selection only if any',
+    extension: 'csv',
+    mimeType: 'text/csv',
+    respectsSelection: true,
+    serialize: graph => [
+      { suffix: 'nodes', content: toNodeCsv(graph) },
+      { suffix: 'edges', content: toEdgeCsv(graph) },
+    ],
+  },
+];
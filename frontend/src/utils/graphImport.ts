@@ -0,0 +1,489 @@
+import { RelationshipType, TopologyEdge, TopologyNode } from '../services/api';
+import { RELATIONSHIP_TYPES, getEdgeKey } from './relationships';
+
+// Parsers that turn graph files (DOT, TopologyResponse JSON, CSV tables) into a standalone canvas topology
+
+export interface ImportedTopology {
+  nodes: TopologyNode[];
+  edges: TopologyEdge[]; // source = parent, target = child
+  // Positions found in the file - only kept when every node has one
+  positions: { [nodeId: string]: { x: number; y: number } };
+}
+
+const STATUSES: TopologyNode['status'][] = ['online', 'offline', 'warning', 'unknown'];
+
+type Attributes = { [name: string]: string };
+
+type Token = { kind: 'id' | 'punct'; value: string };
+
+// Split DOT source into IDs (bare, numeral, quoted or HTML) and punctuation
+const tokenizeDot = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (source.startsWith('//', i) || (char === '#' && (i === 0 || source[i - 1] === '\n'))) {
+      // Line comments and C preprocessor output lines
+      while (i < source.length && source[i] !== '\n') i++;
+    } else if (source.startsWith('/*', i)) {
+      const end = source.indexOf('*/', i + 2);
+      if (end === -1) throw new Error('Unterminated comment');
+      i = end + 2;
+    } else if (source.startsWith('->', i) || source.startsWith('--', i)) {
+      tokens.push({ kind: 'punct', value: source.slice(i, i + 2) });
+      i += 2;
+    } else if ('{}[];,=:'.includes(char)) {
+      tokens.push({ kind: 'punct', value: char });
+      i++;
+    } else if (char === '"') {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== '"') {
+        if (source[i] === '\\' && source[i + 1] === '"') {
+          value += '"';
+          i += 2;
+        } else if (source[i] === '\\' && source[i + 1] === '\n') {
+          i += 2; // Line continuation
+        } else {
+          value += source[i++];
+        }
+      }
+      if (i >= source.length) throw new Error('Unterminated quoted string');
+      i++;
+      // "a" + "b" concatenation
+      const previous = tokens[tokens.length - 1];
+      if (previous?.kind === 'punct' && previous.value === '+') {
+        tokens.pop();
+        tokens[tokens.length - 1].value += value;
+      } else {
+        tokens.push({ kind: 'id', value });
+      }
+    } else if (char === '<') {
+      // HTML-like label - keep the markup as the value
+      let depth = 0;
+      const start = i;
+      do {
+        if (source[i] === '<') depth++;
+        if (source[i] === '>') depth--;
+        i++;
+      } while (i < source.length && depth > 0);
+      if (depth > 0) throw new Error('Unterminated HTML string');
+      tokens.push({ kind: 'id', value: source.slice(start + 1, i - 1) });
+    } else if (char === '+') {
+      tokens.push({ kind: 'punct', value: '+' });
+      i++;
+    } else {
+      const match = /^(-?(\.\d+|\d+(\.\d*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)/.exec(source.slice(i));
+      if (!match) throw new Error(`Unexpected character "${char}"`);
+      tokens.push({ kind: 'id', value: match[0] });
+      i += match[0].length;
+    }
+  }
+  return tokens;
+};
+
+// DOT labels use \n, \l and \r as line breaks
+const unescapeDotLabel = (label: string): string[] =>
+  label.split(/\\[nlr]/).map(line => line.trim()).filter(Boolean);
+
+// Parse a Graphviz DOT file. Supports node/edge statements, edge chains, attribute lists,
+// subgraphs (flattened) and ports; graph-level attributes are ignored. Device fields come
+// from name/type/status/ip attributes (as written by the DOT export) with the label as fallback.
+export const parseDot = (source: string): ImportedTopology => {
+  const tokens = tokenizeDot(source);
+  let position = 0;
+
+  const peek = (offset = 0): Token | undefined => tokens[position + offset];
+  const isPunct = (value: string, offset = 0) => peek(offset)?.kind === 'punct' && peek(offset)?.value === value;
+  const expectId = (): string => {
+    const token = tokens[position++];
+    if (!token || token.kind !== 'id') {
+      throw new Error(`Expected an identifier but found "${token?.value ?? 'end of file'}"`);
+    }
+    return token.value;
+  };
+  const expectPunct = (value: string) => {
+    if (!isPunct(value)) {
+      throw new Error(`Expected "${value}" but found "${peek()?.value ?? 'end of file'}"`);
+    }
+    position++;
+  };
+
+  const nodeAttributes = new Map<string, Attributes>();
+  const nodeOrder: string[] = [];
+  const edgeKeys = new Set<string>();
+  const edges: TopologyEdge[] = [];
+
+  const declareNode = (id: string, attributes: Attributes = {}) => {
+    if (!nodeAttributes.has(id)) {
+      nodeAttributes.set(id, {});
+      nodeOrder.push(id);
+    }
+    Object.assign(nodeAttributes.get(id)!, attributes);
+  };
+
+  const parseAttributeList = (): Attributes => {
+    const attributes: Attributes = {};
+    while (isPunct('[')) {
+      position++;
+      while (!isPunct(']')) {
+        const name = expectId();
+        if (isPunct('=')) {
+          position++;
+          attributes[name] = expectId();
+        }
+        if (isPunct(',') || isPunct(';')) position++;
+      }
+      position++;
+    }
+    return attributes;
+  };
+
+  // Node ID with an optional port (a:port or a:port:compass) - ports are dropped
+  const parseNodeId = (): string => {
+    const id = expectId();
+    while (isPunct(':')) {
+      position++;
+      expectId();
+    }
+    return id;
+  };
+
+  // Subgraphs contribute their nodes to the surrounding edge statement
+  const parseSubgraph = (): string[] => {
+    if (peek()?.value === 'subgraph') {
+      position++;
+      if (peek()?.kind === 'id') position++;
+    }
+    expectPunct('{');
+    const before = new Set(nodeOrder);
+    parseStatements();
+    expectPunct('}');
+    return nodeOrder.filter(id => !before.has(id));
+  };
+
+  const parseOperand = (): string[] => {
+    if (isPunct('{') || peek()?.value === 'subgraph') {
+      return parseSubgraph();
+    }
+    const id = parseNodeId();
+    declareNode(id);
+    return [id];
+  };
+
+  const parseStatement = () => {
+    const keyword = peek()?.kind === 'id' ? peek()!.value.toLowerCase() : null;
+
+    // Default attribute statements (graph/node/edge [...]) don't describe devices
+    if ((keyword === 'graph' || keyword === 'node' || keyword === 'edge') && isPunct('[', 1)) {
+      position++;
+      parseAttributeList();
+      return;
+    }
+
+    // Graph attribute (rankdir=TB)
+    if (peek()?.kind === 'id' && isPunct('=', 1)) {
+      position += 3;
+      return;
+    }
+
+    const operands = [parseOperand()];
+    while (isPunct('->') || isPunct('--')) {
+      position++;
+      operands.push(parseOperand());
+    }
+    const attributes = parseAttributeList();
+
+    if (operands.length === 1) {
+      operands[0].forEach(id => declareNode(id, attributes));
+      return;
+    }
+
+    for (let i = 0; i < operands.length - 1; i++) {
+      operands[i].forEach(source => {
+        operands[i + 1].forEach(target => {
+          const edge: TopologyEdge = { source, target, type: normalizeRelationshipType(attributes.type) };
+          const key = getEdgeKey(edge);
+          if (source === target || edgeKeys.has(key)) return;
+          edgeKeys.add(key);
+          edges.push(edge);
+        });
+      });
+    }
+  };
+
+  function parseStatements() {
+    while (position < tokens.length && !isPunct('}')) {
+      parseStatement();
+      if (isPunct(';')) position++;
+    }
+  }
+
+  // Header: [strict] (graph | digraph) [ID] {
+  if (peek()?.value.toLowerCase() === 'strict') position++;
+  const graphType = peek()?.value.toLowerCase();
+  if (graphType !== 'graph' && graphType !== 'digraph') {
+    throw new Error('Not a DOT file - expected "graph" or "digraph"');
+  }
+  position++;
+  if (peek()?.kind === 'id') position++;
+  expectPunct('{');
+  parseStatements();
+  expectPunct('}');
+
+  if (nodeOrder.length === 0) {
+    throw new Error('The DOT file does not contain any nodes');
+  }
+
+  const positions: ImportedTopology['positions'] = {};
+  const nodes: TopologyNode[] = nodeOrder.map(id => {
+    const attributes = nodeAttributes.get(id)!;
+    const labelLines = attributes.label ? unescapeDotLabel(attributes.label) : [];
+    const status = attributes.status?.toLowerCase() as TopologyNode['status'];
+
+    const pos = /^\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)/.exec(attributes.pos || '');
+    if (pos) {
+      // Graphviz's y axis points up, the canvas y axis points down
+      positions[id] = { x: parseFloat(pos[1]), y: -parseFloat(pos[2]) };
+    }
+
+    return {
+      id,
+      label: attributes.name || labelLines[0] || id,
+      type: attributes.type || 'Unknown',
+      status: STATUSES.includes(status) ? status : 'unknown',
+      ip: attributes.ip || 'N/A',
+    };
+  });
+
+  return {
+    nodes,
+    edges,
+    positions: Object.keys(positions).length === nodes.length ? positions : {},
+  };
+};
+
+const normalizeStatus = (value: unknown): TopologyNode['status'] => {
+  const status = String(value ?? '').toLowerCase() as TopologyNode['status'];
+  return STATUSES.includes(status) ? status : 'unknown';
+};
+
+// JSON files carry the { id, name } object, CSV tables only the organization name
+const toOrganization = (value: any): TopologyNode['organization'] => {
+  if (value && typeof value === 'object' && value.id !== undefined && value.id !== null) {
+    return { id: String(value.id), name: String(value.name ?? value.id) };
+  }
+  return typeof value === 'string' && value ? { id: value, name: value } : null;
+};
+
+// Unrecognised relationship types are dropped so the edge falls back to the untyped style
+const normalizeRelationshipType = (value: unknown): RelationshipType | undefined => {
+  const type = String(value ?? '').toLowerCase() as RelationshipType;
+  return RELATIONSHIP_TYPES.includes(type) ? type : undefined;
+};
+
+// Edges may reference devices that the file doesn't list - keep the relationship with a bare node
+const addMissingEndpoints = (nodes: TopologyNode[], edges: TopologyEdge[]): TopologyNode[] => {
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const missing: TopologyNode[] = [];
+  edges.forEach(edge => {
+    [edge.source, edge.target].forEach(id => {
+      if (nodeIds.has(id)) return;
+      nodeIds.add(id);
+      missing.push({ id, label: id, type: 'Unknown', status: 'unknown', ip: 'N/A' });
+    });
+  });
+  return [...nodes, ...missing];
+};
+
+// Parse a TopologyResponse JSON dump (or just its { nodes, edges } topology part)
+export const parseTopologyJson = (source: string): ImportedTopology => {
+  let data: any;
+  try {
+    data = JSON.parse(source);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const topology = data?.topology ?? data;
+  if (!Array.isArray(topology?.nodes) || !Array.isArray(topology?.edges)) {
+    throw new Error('Expected a topology with "nodes" and "edges" arrays');
+  }
+
+  const nodes: TopologyNode[] = topology.nodes.map((node: any, index: number) => {
+    if (node?.id === undefined || node?.id === null) {
+      throw new Error(`Node ${index + 1} has no id`);
+    }
+    const id = String(node.id);
+    return {
+      id,
+      label: String(node.label ?? node.name ?? id),
+      type: String(node.type ?? 'Unknown'),
+      status: normalizeStatus(node.status),
+      ip: String(node.ip ?? 'N/A'),
+      organization: toOrganization(node.organization),
+    };
+  });
+
+  const edges: TopologyEdge[] = topology.edges.map((edge: any, index: number) => {
+    if (edge?.source === undefined || edge?.target === undefined) {
+      throw new Error(`Edge ${index + 1} needs a source and a target`);
+    }
+    return {
+      source: String(edge.source),
+      target: String(edge.target),
+      type: normalizeRelationshipType(edge.type),
+      relationshipId: edge.relationshipId !== undefined ? String(edge.relationshipId) : undefined,
+      typeName: typeof edge.typeName === 'string' ? edge.typeName : undefined,
+    };
+  });
+
+  if (nodes.length === 0) {
+    throw new Error('The topology does not contain any nodes');
+  }
+  return { nodes: addMissingEndpoints(nodes, edges), edges, positions: {} };
+};
+
+// RFC 4180 rows - quoted fields may contain commas, quotes and line breaks
+const parseCsvRows = (source: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Undo the spreadsheet formula guard added by the CSV export
+  return rows
+    .filter(r => r.some(cell => cell.trim()))
+    .map(r => r.map(cell => (/^'[=+\-@]/.test(cell) ? cell.slice(1) : cell)));
+};
+
+// Header-mapped records; each field accepts the export's column name and common alternatives
+const readCsvTable = (source: string) => {
+  const [header = [], ...rows] = parseCsvRows(source);
+  const columns = header.map(name => name.trim().toLowerCase());
+  return {
+    has: (...names: string[]) => names.some(name => columns.includes(name)),
+    records: rows.map(row => (...names: string[]) => {
+      for (const name of names) {
+        const index = columns.indexOf(name);
+        if (index !== -1 && row[index]?.trim()) return row[index].trim();
+      }
+      return '';
+    }),
+  };
+};
+
+const EDGE_SOURCE_COLUMNS = ['parent_id', 'source', 'parent', 'from'];
+const EDGE_TARGET_COLUMNS = ['child_id', 'target', 'child', 'to'];
+
+// Parse node/edge CSV tables (as written by the CSV export). Either file may be missing:
+// nodes without edges is a flat device list, edges without nodes builds bare nodes from the IDs.
+export const parseTopologyCsv = (csvFiles: string[]): ImportedTopology => {
+  const nodes: TopologyNode[] = [];
+  const edges: TopologyEdge[] = [];
+  const edgeNames = new Map<string, string>();
+
+  csvFiles.forEach(source => {
+    const table = readCsvTable(source);
+
+    if (table.has(...EDGE_SOURCE_COLUMNS) && table.has(...EDGE_TARGET_COLUMNS)) {
+      table.records.forEach(get => {
+        const sourceId = get(...EDGE_SOURCE_COLUMNS);
+        const targetId = get(...EDGE_TARGET_COLUMNS);
+        if (!sourceId || !targetId) return;
+        edges.push({
+          source: sourceId,
+          target: targetId,
+          type: normalizeRelationshipType(get('relationship_type', 'relationship', 'type')),
+        });
+        if (get('parent_name')) edgeNames.set(sourceId, get('parent_name'));
+        if (get('child_name')) edgeNames.set(targetId, get('child_name'));
+      });
+    } else if (table.has('id')) {
+      table.records.forEach(get => {
+        const id = get('id');
+        if (!id) return;
+        nodes.push({
+          id,
+          label: get('name', 'label') || id,
+          type: get('type') || 'Unknown',
+          status: normalizeStatus(get('status')),
+          ip: get('ip') || 'N/A',
+          organization: toOrganization(get('organization')),
+        });
+      });
+    } else {
+      throw new Error('CSV files need an "id" column (nodes) or parent_id/child_id columns (edges)');
+    }
+  });
+
+  const allNodes = addMissingEndpoints(nodes, edges).map(node =>
+    node.label === node.id && edgeNames.has(node.id) ? { ...node, label: edgeNames.get(node.id)! } : node
+  );
+  if (allNodes.length === 0) {
+    throw new Error('The CSV files do not contain any nodes');
+  }
+  return { nodes: allNodes, edges, positions: {} };
+};
+
+// Pick the parser from the file extensions - CSV node/edge tables may be selected together
+export const parseTopologyFiles = (files: { name: string; text: string }[]): ImportedTopology => {
+  const extensionOf = (name: string) => name.toLowerCase().split('.').pop() || '';
+  const csvFiles = files.filter(file => extensionOf(file.name) === 'csv');
+
+  if (csvFiles.length > 0) {
+    if (csvFiles.length !== files.length) {
+      throw new Error('CSV tables cannot be combined with other file types');
+    }
+    return parseTopologyCsv(csvFiles.map(file => file.text));
+  }
+  if (files.length !== 1) {
+    throw new Error('Select a single JSON or DOT file, or CSV node and edge tables');
+  }
+
+  const [file] = files;
+  switch (extensionOf(file.name)) {
+    case 'json':
+      return parseTopologyJson(file.text);
+    case 'dot':
+    case 'gv':
+      return parseDot(file.text);
+    default:
+      throw new Error(`Unsupported file type: ${file.name}`);
+  }
+};
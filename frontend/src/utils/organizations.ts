@@ -0,0 +1,47 @@
+import { DeviceOrganization, TopologyNode } from '../services/api';
+
+// Organization (tenant) colors shared by the canvas nodes and the organization legend
+
+export interface OrganizationColor {
+  swatch: string; // Legend dot
+  light: string; // Node background in the light theme
+  dark: string; // Node background in the dark theme
+}
+
+// Colors are handed out in organization name order and repeat past the end of the palette
+const ORGANIZATION_PALETTE: OrganizationColor[] = [
+  { swatch: '#3b82f6', light: '#dbeafe', dark: '#1e3a8a' },
+  { swatch: '#10b981', light: '#d1fae5', dark: '#064e3b' },
+  { swatch: '#a855f7', light: '#f3e8ff', dark: '#581c87' },
+  { swatch: '#f59e0b', light: '#fef3c7', dark: '#78350f' },
+  { swatch: '#ec4899', light: '#fce7f3', dark: '#831843' },
+  { swatch: '#14b8a6', light: '#ccfbf1', dark: '#134e4a' },
+  { swatch: '#f97316', light: '#ffedd5', dark: '#7c2d12' },
+  { swatch: '#6366f1', light: '#e0e7ff', dark: '#312e81' },
+];
+
+// Devices whose organization SL1 did not return
+export const NO_ORGANIZATION_COLOR: OrganizationColor = { swatch: '#9ca3af', light: '#f3f4f6', dark: '#374151' };
+
+export interface OrganizationGroup {
+  organization: DeviceOrganization;
+  color: OrganizationColor;
+  count: number;
+}
+
+export const groupByOrganization = (nodes: TopologyNode[]): OrganizationGroup[] => {
+  const groups = new Map<string, { organization: DeviceOrganization; count: number }>();
+  nodes.forEach(node => {
+    if (!node.organization) return;
+    const group = groups.get(node.organization.id);
+    if (group) {
+      group.count++;
+    } else {
+      groups.set(node.organization.id, { organization: node.organization, count: 1 });
+    }
+  });
+
+  return Array.from(groups.values())
+    .sort((a, b) => a.organization.name.localeCompare(b.organization.name) || a.organization.id.localeCompare(b.organization.id))
+    .map((group, index) => ({ ...group, color: ORGANIZATION_PALETTE[index % ORGANIZATION_PALETTE.length] }));
+};
@@ -0,0 +1,408 @@
+import { SvgScene, renderTopologySvg } from './svgExport';
+
+// Printable topology pack: a title page with a page map, the canvas tiled across
+// A4 landscape pages at a readable scale, and a device index pointing at page/grid cells.
+// Pages are rasterized from the SVG export and written with a minimal PDF 1.4 writer.
+
+export interface PdfIndexDevice {
+  id: string;
+  name: string;
+  type?: string;
+  ip?: string;
+  // Canvas node drawn in place of a device hidden in a cluster or collapsed subtree
+  shownAs?: { id: string; note: string };
+}
+
+export interface PdfExportMetadata {
+  title: string;
+  seeds: string[];
+  depth: string;
+  user?: string;
+  generatedAt: Date;
+  edgeCount: number;
+}
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+interface PdfImage {
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+}
+
+interface PdfPage {
+  content: string;
+  image?: PdfImage;
+}
+
+// A4 landscape in points
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+// Printable area for canvas tiles - leaves room for the header and continuation hints
+const TILE_AREA: Rect = { x: 40, y: 30, width: 762, height: 510 };
+// Points per canvas unit - 14px node labels print at roughly 8.5pt
+const READABLE_SCALE = 0.6;
+const MAX_TILE_PAGES = 40;
+// Raster pixels per point for tile images
+const RASTER_SCALE = 2;
+// Reference grid drawn on every tile page, used by the device index
+const GRID_COLUMNS = 4;
+const GRID_ROWS = 3;
+const CONTENT_PADDING = 40;
+const INDEX_ROW_HEIGHT = 14;
+
+// Helvetica only covers WinAnsi - anything outside Latin-1 prints as '?'
+const toPdfString = (text: string): string =>
+  text
+    .replace(/[^\x20-\x7e\xa0-\xff]/gu, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+
+// Rough Helvetica advance width - good enough for truncation and right alignment
+const estimateTextWidth = (text: string, size: number): number => text.length * size * 0.52;
+
+const truncateText = (text: string, size: number, maxWidth: number): string => {
+  if (estimateTextWidth(text, size) <= maxWidth) return text;
+  const maxChars = Math.max(1, Math.floor(maxWidth / (size * 0.52)) - 3);
+  return `${text.slice(0, maxChars)}...`;
+};
+
+const wrapText = (text: string, size: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  text.split(/\s+/).forEach(word => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && estimateTextWidth(candidate, size) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+};
+
+const num = (value: number): string => String(Math.round(value * 100) / 100);
+
+const textOp = (x: number, y: number, size: number, text: string, options: { bold?: boolean; gray?: number } = {}): string =>
+  `BT /${options.bold ? 'F2' : 'F1'} ${size} Tf ${options.gray ?? 0} g ${num(x)} ${num(y)} Td (${toPdfString(text)}) Tj ET`;
+
+const strokeRectOp = (rect: Rect, gray: number, width = 0.5): string =>
+  `${gray} G ${width} w ${num(rect.x)} ${num(rect.y)} ${num(rect.width)} ${num(rect.height)} re S`;
+
+const lineOp = (x1: number, y1: number, x2: number, y2: number, gray: number, width = 0.5): string =>
+  `${gray} G ${width} w ${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`;
+
+const imageOp = (rect: Rect): string =>
+  `q ${num(rect.width)} 0 0 ${num(rect.height)} ${num(rect.x)} ${num(rect.y)} cm /Im1 Do Q`;
+
+const gridColumnLabel = (index: number): string => String.fromCharCode(65 + index);
+
+// Draw the scene's world rect into a JPEG of the given pixel size
+const rasterizeScene = (scene: SvgScene, world: Rect, pixelWidth: number, pixelHeight: number): Promise<PdfImage> => {
+  const svg = renderTopologySvg(scene, {
+    theme: 'light',
+    includeLegend: false,
+    viewport: { ...world, pixelWidth, pixelHeight },
+  });
+
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = pixelWidth;
+      canvas.height = pixelHeight;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas not available for PDF export'));
+        return;
+      }
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, pixelWidth, pixelHeight);
+      context.drawImage(image, 0, 0, pixelWidth, pixelHeight);
+
+      const base64 = canvas.toDataURL('image/jpeg', 0.9).split(',')[1];
+      const binary = atob(base64);
+      const bytes = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+      resolve({ bytes, width: pixelWidth, height: pixelHeight });
+    };
+    image.onerror = () => reject(new Error('Failed to render topology page'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+};
+
+// Serialize pages into a PDF file - Helvetica/Helvetica-Bold text plus one JPEG per page at most
+const writePdf = (pages: PdfPage[], metadata: PdfExportMetadata): Uint8Array<ArrayBuffer> => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  // PDF syntax is Latin-1; content strings are already restricted to it by toPdfString
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string'
+      ? Uint8Array.from(data, char => char.charCodeAt(0) & 0xff)
+      : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // Fixed objects first, then page / content / image objects per page
+  const CATALOG_ID = 1;
+  const PAGES_ID = 2;
+  const FONT_ID = 3;
+  const BOLD_FONT_ID = 4;
+  const INFO_ID = 5;
+  let nextId = 6;
+  const pageIds = pages.map(page => ({
+    page: nextId++,
+    content: nextId++,
+    image: page.image ? nextId++ : undefined,
+  }));
+
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+
+  beginObject(CATALOG_ID);
+  write(`<< /Type /Catalog /Pages ${PAGES_ID} 0 R >>\nendobj\n`);
+  beginObject(PAGES_ID);
+  write(`<< /Type /Pages /Kids [${pageIds.map(ids => `${ids.page} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+  beginObject(FONT_ID);
+  write('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>\nendobj\n');
+  beginObject(BOLD_FONT_ID);
+  write('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>\nendobj\n');
+
+  const date = metadata.generatedAt.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+  beginObject(INFO_ID);
+  write(`<< /Title (${toPdfString(metadata.title)}) /Author (${toPdfString(metadata.user || '')}) /Creator (SL1 Topology) /CreationDate (D:${date}Z) >>\nendobj\n`);
+
+  pages.forEach((page, index) => {
+    const ids = pageIds[index];
+    const xObjects = ids.image ? ` /XObject << /Im1 ${ids.image} 0 R >>` : '';
+
+    beginObject(ids.page);
+    write(
+      `<< /Type /Page /Parent ${PAGES_ID} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}]` +
+      ` /Resources << /Font << /F1 ${FONT_ID} 0 R /F2 ${BOLD_FONT_ID} 0 R >>${xObjects} >>` +
+      ` /Contents ${ids.content} 0 R >>\nendobj\n`
+    );
+
+    beginObject(ids.content);
+    write(`<< /Length ${page.content.length} >>\nstream\n${page.content}\nendstream\nendobj\n`);
+
+    if (page.image && ids.image) {
+      beginObject(ids.image);
+      write(
+        `<< /Type /XObject /Subtype /Image /Width ${page.image.width} /Height ${page.image.height}` +
+        ` /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.image.bytes.length} >>\nstream\n`
+      );
+      write(page.image.bytes);
+      write('\nendstream\nendobj\n');
+    }
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${nextId}\n0000000000 65535 f \n`);
+  for (let id = 1; id < nextId; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${nextId} /Root ${CATALOG_ID} 0 R /Info ${INFO_ID} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach(chunk => {
+    pdf.set(chunk, position);
+    position += chunk.length;
+  });
+  return pdf;
+};
+
+export const buildTopologyPdf = async (
+  scene: SvgScene,
+  devices: PdfIndexDevice[],
+  metadata: PdfExportMetadata
+): Promise<Uint8Array<ArrayBuffer>> => {
+  // World-space extent of the drawing
+  const left = Math.min(...scene.nodes.map(n => n.box.left)) - CONTENT_PADDING;
+  const top = Math.min(...scene.nodes.map(n => n.box.top)) - CONTENT_PADDING;
+  const right = Math.max(...scene.nodes.map(n => n.box.right)) + CONTENT_PADDING;
+  const bottom = Math.max(...scene.nodes.map(n => n.box.bottom)) + CONTENT_PADDING;
+  const worldWidth = right - left;
+  const worldHeight = bottom - top;
+
+  // Small graphs are scaled up to fill one page; large ones tile at the readable scale,
+  // shrinking only when the page count would get out of hand
+  const fitScale = Math.min(TILE_AREA.width / worldWidth, TILE_AREA.height / worldHeight);
+  let scale = fitScale >= READABLE_SCALE ? Math.min(fitScale, 1) : READABLE_SCALE;
+  let columns = Math.ceil((worldWidth * scale) / TILE_AREA.width);
+  let rows = Math.ceil((worldHeight * scale) / TILE_AREA.height);
+  while (columns * rows > MAX_TILE_PAGES) {
+    scale *= 0.9;
+    columns = Math.ceil((worldWidth * scale) / TILE_AREA.width);
+    rows = Math.ceil((worldHeight * scale) / TILE_AREA.height);
+  }
+
+  const tileWorldWidth = TILE_AREA.width / scale;
+  const tileWorldHeight = TILE_AREA.height / scale;
+  const tileCount = columns * rows;
+  // Page 1 is the title page, tiles follow row by row
+  const tilePageNumber = (row: number, column: number) => 2 + row * columns + column;
+
+  // Device index rows - page and reference grid cell for each node's center. Hidden devices
+  // point at the cluster or collapsed node that stands in for them.
+  const boxes = new Map(scene.nodes.map(node => [node.id, node.box]));
+  const indexRows = devices
+    .filter(device => boxes.has(device.id) || (device.shownAs && boxes.has(device.shownAs.id)))
+    .map(device => {
+      const box = boxes.get(device.id) || boxes.get(device.shownAs!.id)!;
+      const localX = (box.left + box.right) / 2 - left;
+      const localY = (box.top + box.bottom) / 2 - top;
+      const column = Math.min(Math.floor(localX / tileWorldWidth), columns - 1);
+      const row = Math.min(Math.floor(localY / tileWorldHeight), rows - 1);
+      const cellColumn = Math.min(Math.floor(((localX - column * tileWorldWidth) / tileWorldWidth) * GRID_COLUMNS), GRID_COLUMNS - 1);
+      const cellRow = Math.min(Math.floor(((localY - row * tileWorldHeight) / tileWorldHeight) * GRID_ROWS), GRID_ROWS - 1);
+      return {
+        device,
+        name: boxes.has(device.id) || !device.shownAs ? device.name : `${device.name} (${device.shownAs.note})`,
+        page: tilePageNumber(row, column),
+        cell: `${gridColumnLabel(cellColumn)}${cellRow + 1}`,
+      };
+    })
+    .sort((a, b) => a.device.name.localeCompare(b.device.name));
+
+  const indexRowsPerPage = Math.floor((PAGE_HEIGHT - 2 * 36 - 60) / INDEX_ROW_HEIGHT);
+  const indexPageCount = Math.max(1, Math.ceil(indexRows.length / indexRowsPerPage));
+  const totalPages = 1 + tileCount + indexPageCount;
+  const timestamp = metadata.generatedAt.toLocaleString();
+
+  const header = (pageNumber: number, caption: string): string[] => [
+    textOp(40, 565, 11, truncateText(metadata.title, 11, 500), { bold: true }),
+    textOp(PAGE_WIDTH - 40 - estimateTextWidth(caption, 9), 566, 9, caption, { gray: 0.4 }),
+    textOp(40, 12, 7, `${timestamp}${metadata.user ? ` - ${metadata.user}` : ''}`, { gray: 0.5 }),
+    textOp(PAGE_WIDTH - 40 - estimateTextWidth(`Page ${pageNumber} of ${totalPages}`, 7), 12, 7, `Page ${pageNumber} of ${totalPages}`, { gray: 0.5 }),
+  ];
+
+  const pages: PdfPage[] = [];
+
+  // Title page - title block on top, page map of the whole drawing below it
+  const titleOps = [
+    ...header(1, 'Title page').slice(2),
+    textOp(40, 540, 22, truncateText(metadata.title, 22, 760), { bold: true }),
+    textOp(40, 518, 10, `Generated ${timestamp}${metadata.user ? ` by ${metadata.user}` : ''}`, { gray: 0.35 }),
+    textOp(40, 502, 10, `${devices.length} devices - ${metadata.edgeCount} relationships - ${tileCount} canvas page${tileCount !== 1 ? 's' : ''}`, { gray: 0.35 }),
+    textOp(40, 482, 10, 'Depth:', { bold: true }),
+    textOp(100, 482, 10, metadata.depth),
+    textOp(40, 466, 10, 'Seeds:', { bold: true }),
+  ];
+  const seedLines = wrapText(metadata.seeds.join(', ') || 'None', 10, 700);
+  const shownSeedLines = seedLines.slice(0, 4);
+  if (seedLines.length > shownSeedLines.length) shownSeedLines[shownSeedLines.length - 1] += ' ...';
+  shownSeedLines.forEach((line, index) => titleOps.push(textOp(100, 466 - index * 13, 10, line)));
+
+  const mapArea: Rect = { x: 40, y: 40, width: 762, height: 466 - shownSeedLines.length * 13 - 60 };
+  const mapScale = Math.min(mapArea.width / (columns * tileWorldWidth), mapArea.height / (rows * tileWorldHeight));
+  const mapRect: Rect = {
+    x: mapArea.x,
+    y: mapArea.y + mapArea.height - rows * tileWorldHeight * mapScale,
+    width: columns * tileWorldWidth * mapScale,
+    height: rows * tileWorldHeight * mapScale,
+  };
+  titleOps.push(textOp(40, mapArea.y + mapArea.height + 12, 10, 'Page map', { bold: true }));
+  const mapImage = await rasterizeScene(
+    scene,
+    { x: left, y: top, width: columns * tileWorldWidth, height: rows * tileWorldHeight },
+    Math.max(1, Math.round(mapRect.width * RASTER_SCALE)),
+    Math.max(1, Math.round(mapRect.height * RASTER_SCALE))
+  );
+  titleOps.push(imageOp(mapRect));
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const cell: Rect = {
+        x: mapRect.x + column * tileWorldWidth * mapScale,
+        y: mapRect.y + mapRect.height - (row + 1) * tileWorldHeight * mapScale,
+        width: tileWorldWidth * mapScale,
+        height: tileWorldHeight * mapScale,
+      };
+      titleOps.push(
+        strokeRectOp(cell, 0.45),
+        textOp(cell.x + 4, cell.y + cell.height - 12, 9, `p.${tilePageNumber(row, column)}`, { bold: true, gray: 0.3 })
+      );
+    }
+  }
+  pages.push({ content: titleOps.join('\n'), image: mapImage });
+
+  // Canvas tiles with reference grid and hints to the neighbouring pages
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const pageNumber = tilePageNumber(row, column);
+      const image = await rasterizeScene(
+        scene,
+        { x: left + column * tileWorldWidth, y: top + row * tileWorldHeight, width: tileWorldWidth, height: tileWorldHeight },
+        Math.round(TILE_AREA.width * RASTER_SCALE),
+        Math.round(TILE_AREA.height * RASTER_SCALE)
+      );
+
+      const ops = [...header(pageNumber, `Canvas page ${row * columns + column + 1} of ${tileCount} (row ${row + 1}, column ${column + 1})`), imageOp(TILE_AREA)];
+      const cellWidth = TILE_AREA.width / GRID_COLUMNS;
+      const cellHeight = TILE_AREA.height / GRID_ROWS;
+      for (let i = 1; i < GRID_COLUMNS; i++) {
+        const x = TILE_AREA.x + i * cellWidth;
+        ops.push(lineOp(x, TILE_AREA.y, x, TILE_AREA.y + TILE_AREA.height, 0.85));
+      }
+      for (let i = 1; i < GRID_ROWS; i++) {
+        const y = TILE_AREA.y + i * cellHeight;
+        ops.push(lineOp(TILE_AREA.x, y, TILE_AREA.x + TILE_AREA.width, y, 0.85));
+      }
+      for (let i = 0; i < GRID_COLUMNS; i++) {
+        ops.push(textOp(TILE_AREA.x + (i + 0.5) * cellWidth - 3, TILE_AREA.y + TILE_AREA.height + 3, 8, gridColumnLabel(i), { bold: true, gray: 0.5 }));
+      }
+      for (let i = 0; i < GRID_ROWS; i++) {
+        ops.push(textOp(TILE_AREA.x - 10, TILE_AREA.y + TILE_AREA.height - (i + 0.5) * cellHeight - 3, 8, String(i + 1), { bold: true, gray: 0.5 }));
+      }
+      ops.push(strokeRectOp(TILE_AREA, 0.6));
+
+      if (column > 0) ops.push(textOp(TILE_AREA.x, TILE_AREA.y - 10, 7, `< p.${tilePageNumber(row, column - 1)}`, { gray: 0.4 }));
+      if (column < columns - 1) ops.push(textOp(TILE_AREA.x + TILE_AREA.width - 24, TILE_AREA.y - 10, 7, `p.${tilePageNumber(row, column + 1)} >`, { gray: 0.4 }));
+      if (row > 0) ops.push(textOp(PAGE_WIDTH / 2 - 20, TILE_AREA.y + TILE_AREA.height + 12, 7, `above: p.${tilePageNumber(row - 1, column)}`, { gray: 0.4 }));
+      if (row < rows - 1) ops.push(textOp(PAGE_WIDTH / 2 - 20, TILE_AREA.y - 10, 7, `below: p.${tilePageNumber(row + 1, column)}`, { gray: 0.4 }));
+
+      pages.push({ content: ops.join('\n'), image });
+    }
+  }
+
+  // Device index - name to page and grid cell
+  const columnsX = { name: 40, type: 330, ip: 480, page: 640, cell: 710 };
+  for (let indexPage = 0; indexPage < indexPageCount; indexPage++) {
+    const pageNumber = 1 + tileCount + indexPage + 1;
+    const ops = [
+      ...header(pageNumber, `Device index ${indexPage + 1} of ${indexPageCount}`),
+      textOp(columnsX.name, 530, 9, 'Device', { bold: true }),
+      textOp(columnsX.type, 530, 9, 'Type', { bold: true }),
+      textOp(columnsX.ip, 530, 9, 'IP', { bold: true }),
+      textOp(columnsX.page, 530, 9, 'Page', { bold: true }),
+      textOp(columnsX.cell, 530, 9, 'Grid', { bold: true }),
+      lineOp(40, 525, PAGE_WIDTH - 40, 525, 0.6),
+    ];
+    indexRows.slice(indexPage * indexRowsPerPage, (indexPage + 1) * indexRowsPerPage).forEach((entry, index) => {
+      const y = 512 - index * INDEX_ROW_HEIGHT;
+      ops.push(
+        textOp(columnsX.name, y, 9, truncateText(entry.name, 9, 280)),
+        textOp(columnsX.type, y, 9, truncateText(entry.device.type || '', 9, 140), { gray: 0.35 }),
+        textOp(columnsX.ip, y, 9, entry.device.ip || '', { gray: 0.35 }),
+        textOp(columnsX.page, y, 9, String(entry.page)),
+        textOp(columnsX.cell, y, 9, entry.cell)
+      );
+    });
+    if (indexRows.length === 0) {
+      ops.push(textOp(columnsX.name, 512, 9, 'No devices on the canvas', { gray: 0.5 }));
+    }
+    pages.push({ content: ops.join('\n') });
+  }
+
+  return writePdf(pages, metadata);
+};
@@ -0,0 +1,44 @@
+import { RelationshipType, TopologyEdge } from '../services/api';
+
+// Edge styling per SL1 relationship class, shared by the canvas and the relationship filter
+
+export interface RelationshipStyle {
+  label: string;
+  color: string;
+  // vis-network dash pattern, false for a solid line
+  dashes: false | number[];
+  width: number;
+}
+
+export const RELATIONSHIP_TYPES: RelationshipType[] = ['layer2', 'cdp', 'lldp', 'virtualization', 'component', 'other'];
+
+export const RELATIONSHIP_STYLES: { [type in RelationshipType]: RelationshipStyle } = {
+  layer2: { label: 'Layer 2', color: '#3b82f6', dashes: false, width: 3 },
+  cdp: { label: 'CDP', color: '#10b981', dashes: false, width: 2 },
+  lldp: { label: 'LLDP', color: '#14b8a6', dashes: [8, 4], width: 2 },
+  virtualization: { label: 'Virtualization', color: '#a855f7', dashes: [2, 4], width: 2 },
+  component: { label: 'Component', color: '#f59e0b', dashes: [10, 4, 2, 4], width: 2 },
+  // Also used for untyped edges from older saved views and imports, so it keeps the theme edge color
+  other: { label: 'Other', color: '', dashes: false, width: 2 },
+};
+
+export const getRelationshipType = (edge: TopologyEdge): RelationshipType =>
+  edge.type && RELATIONSHIP_STYLES[edge.type] ? edge.type : 'other';
+
+// Shown when hovering an edge, e.g. "LLDP (LLDP neighbour)" when SL1's own name differs
+export const describeRelationship = (edge: TopologyEdge): string => {
+  const { label } = RELATIONSHIP_STYLES[getRelationshipType(edge)];
+  return edge.typeName && edge.typeName.toLowerCase() !== label.toLowerCase() ? `${label} (${edge.typeName})` : label;
+};
+
+export const countRelationshipTypes = (edges: TopologyEdge[]): Map<RelationshipType, number> => {
+  const counts = new Map<RelationshipType, number>();
+  edges.forEach(edge => {
+    const type = getRelationshipType(edge);
+    counts.set(type, (counts.get(type) || 0) + 1);
+  });
+  return counts;
+};
+
+// Identifies an edge when merging topologies - the same pair can be linked by several relationship types
+export const getEdgeKey = (edge: TopologyEdge): string => `${edge.source}-${edge.target}-${getRelationshipType(edge)}`;
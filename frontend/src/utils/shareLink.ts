@@ -0,0 +1,129 @@
+import { CanvasLayoutState } from '../services/savedViews';
+
+// Shareable deep links - encode the canvas seeds and view into the URL query string:
+//   ?devices=101:children:2,205:both:3&layout=hierarchical&view=1.25,120,-40&collapsed=101
+
+type Direction = 'parents' | 'children' | 'both';
+
+export interface SharedCanvas {
+  deviceIds: string[];
+  deviceDirections: { [deviceId: string]: Direction };
+  deviceDepths: { [deviceId: string]: number };
+  layout: CanvasLayoutState['layout'];
+  viewport?: CanvasLayoutState['viewport'];
+  collapsedNodes?: string[];
+}
+
+const SHARE_PARAMS = ['devices', 'layout', 'view', 'collapsed'];
+const DIRECTIONS: Direction[] = ['parents', 'children', 'both'];
+const LAYOUTS: CanvasLayoutState['layout'][] = ['hierarchical', 'physics', 'grid'];
+
+// Keep the URL short - sub-pixel precision is not needed to reproduce the view
+const round = (value: number, decimals: number): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+export const buildShareUrl = (shared: SharedCanvas): string => {
+  const url = new URL(window.location.href);
+  url.hash = '';
+  SHARE_PARAMS.forEach(param => url.searchParams.delete(param));
+
+  url.searchParams.set('devices', shared.deviceIds
+    .map(id => `${id}:${shared.deviceDirections[id]}:${shared.deviceDepths[id]}`)
+    .join(','));
+  url.searchParams.set('layout', shared.layout);
+
+  if (shared.viewport) {
+    const { scale, position } = shared.viewport;
+    url.searchParams.set('view', [round(scale, 3), round(position.x, 1), round(position.y, 1)].join(','));
+  }
+
+  if (shared.collapsedNodes && shared.collapsedNodes.length > 0) {
+    url.searchParams.set('collapsed', shared.collapsedNodes.join(','));
+  }
+
+  return url.toString();
+};
+
+// Parse a shared canvas from a query string - returns null when the URL is not a share link
+export const parseShareUrl = (search: string): SharedCanvas | null => {
+  const params = new URLSearchParams(search);
+  const devicesParam = params.get('devices');
+  if (!devicesParam) return null;
+
+  const shared: SharedCanvas = {
+    deviceIds: [],
+    deviceDirections: {},
+    deviceDepths: {},
+    layout: 'physics',
+  };
+
+  devicesParam.split(',').forEach(entry => {
+    // Split from the right so device IDs containing ':' still parse
+    const parts = entry.split(':');
+    if (parts.length < 3) return;
+    const depth = parseInt(parts.pop()!, 10);
+    const direction = parts.pop() as Direction;
+    const id = parts.join(':');
+
+    if (!id || !DIRECTIONS.includes(direction) || isNaN(depth) || depth < 1) return;
+    if (!shared.deviceIds.includes(id)) {
+      shared.deviceIds.push(id);
+    }
+    shared.deviceDirections[id] = direction;
+    shared.deviceDepths[id] = depth;
+  });
+
+  if (shared.deviceIds.length === 0) return null;
+
+  const layout = params.get('layout') as CanvasLayoutState['layout'];
+  if (LAYOUTS.includes(layout)) {
+    shared.layout = layout;
+  }
+
+  const view = (params.get('view') || '').split(',').map(Number);
+  if (view.length === 3 && view.every(value => !isNaN(value)) && view[0] > 0) {
+    shared.viewport = { scale: view[0], position: { x: view[1], y: view[2] } };
+  }
+
+  const collapsed = (params.get('collapsed') || '').split(',').filter(id => id);
+  if (collapsed.length > 0) {
+    shared.collapsedNodes = collapsed;
+  }
+
+  return shared;
+};
+
+// Remove share parameters once applied so later edits don't leave a stale link in the address bar
+export const clearShareParams = (): void => {
+  const url = new URL(window.location.href);
+  SHARE_PARAMS.forEach(param => url.searchParams.delete(param));
+  window.history.replaceState(window.history.state, '', url.toString());
+};
+
+export const copyToClipboard = async (text: string): Promise<boolean> => {
+  // navigator.clipboard is only available in secure contexts (HTTPS/localhost)
+  if (navigator.clipboard && window.isSecureContext) {
+    try {
+      await navigator.clipboard.writeText(text);
+      return true;
+    } catch (error) {
+      // Fall through to the legacy approach
+    }
+  }
+
+  const textarea = document.createElement('textarea');
+  textarea.value = text;
+  textarea.style.position = 'fixed';
+  textarea.style.opacity = '0';
+  document.body.appendChild(textarea);
+  textarea.select();
+  try {
+    return document.execCommand('copy');
+  } catch (error) {
+    return false;
+  } finally {
+    document.body.removeChild(textarea);
+  }
+};
@@ -0,0 +1,327 @@
+import { Network } from 'vis-network/standalone';
+import { escapeXml } from './graphExport';
+import { getDeviceIcon, getStatusColor } from './deviceStyle';
+
+// Vector SVG export that redraws the vis-network canvas from its drawn nodes and edges: the same
+// box styles, labels, highlight glows, curved circular edges and arrowheads.
+
+type Point = { x: number; y: number };
+type Box = { left: number; top: number; right: number; bottom: number };
+
+export interface SvgNode {
+  id: string;
+  box: Box;
+  lines: string[];
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  fontColor: string;
+  fontStroke: string;
+  shadow?: { color: string; size: number; x: number; y: number };
+}
+
+interface SvgEdge {
+  from: string;
+  to: string;
+  // Quadratic control point - vis bezier edges expose it, straight edges have none
+  via?: Point;
+  color: string;
+  width: number;
+  // Dash/gap lengths for dashed relationship types
+  dashes?: number[];
+}
+
+export interface SvgScene {
+  nodes: SvgNode[];
+  edges: SvgEdge[];
+  deviceTypes: string[];
+}
+
+export interface SvgExportOptions {
+  theme: 'light' | 'dark';
+  title?: string;
+  includeLegend: boolean;
+  // Crop to a world-space rect drawn at a fixed pixel size (PDF page tiles)
+  viewport?: { x: number; y: number; width: number; height: number; pixelWidth: number; pixelHeight: number };
+}
+
+const FONT_FAMILY = 'Inter, system-ui, sans-serif';
+const FONT_SIZE = 14;
+const NODE_MARGIN_X = 15;
+const NODE_MARGIN_Y = 10;
+const ARROW_LENGTH = 12;
+
+const CANVAS_BACKGROUND = { light: '#ffffff', dark: '#1f2937' };
+const TEXT_MUTED = { light: '#6b7280', dark: '#9ca3af' };
+const TEXT_STRONG = { light: '#1f2937', dark: '#f9fafb' };
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+// Wrap a label line the way vis does within the node's width, using real font metrics
+const wrapLine = (context: CanvasRenderingContext2D | null, line: string, maxWidth: number): string[] => {
+  if (!context || context.measureText(line).width <= maxWidth) return [line];
+
+  const wrapped: string[] = [];
+  let current = '';
+  line.split(/\s+/).forEach(word => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && context.measureText(candidate).width > maxWidth) {
+      wrapped.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  });
+  if (current) wrapped.push(current);
+  return wrapped;
+};
+
+// Read node/edge styles from what the network draws - its visible node and edge indices
+// leave out collapsed subtrees, clustered devices and hidden relationship types but include
+// the cluster nodes
+export const collectSvgScene = (network: Network): SvgScene => {
+  const body = (network as any).body;
+  const context = document.createElement('canvas').getContext('2d');
+  if (context) context.font = `${FONT_SIZE}px ${FONT_FAMILY}`;
+
+  const deviceTypes = new Set<string>();
+  const nodes: SvgNode[] = (body.nodeIndices as string[]).map(nodeId => {
+    const { options } = body.nodes[nodeId];
+    const box = network.getBoundingBox(nodeId);
+    const lines = String(options.label || nodeId)
+      .split('\n')
+      .flatMap(line => wrapLine(context, line, box.right - box.left - NODE_MARGIN_X * 2));
+    const type = body.data.nodes.get(nodeId)?.nodeData?.type;
+    if (type) deviceTypes.add(type);
+
+    return {
+      id: String(nodeId),
+      box,
+      lines,
+      fill: options.color?.background || '#ffffff',
+      stroke: options.color?.border || '#6b7280',
+      strokeWidth: options.borderWidth || 2,
+      fontColor: options.font?.color || '#1f2937',
+      fontStroke: options.font?.strokeColor || '#ffffff',
+      shadow: options.shadow?.enabled
+        ? { color: options.shadow.color, size: options.shadow.size, x: options.shadow.x, y: options.shadow.y }
+        : undefined,
+    };
+  });
+
+  const edges: SvgEdge[] = (body.edgeIndices as string[]).map(edgeId => {
+    const edge = body.edges[edgeId];
+    const via = edge.edgeType?.getViaNode?.();
+    return {
+      from: String(edge.fromId),
+      to: String(edge.toId),
+      via: via && Number.isFinite(via.x) && Number.isFinite(via.y) ? { x: via.x, y: via.y } : undefined,
+      color: edge.options.color?.color || '#cbd5e0',
+      width: edge.options.width || 2,
+      // vis draws `dashes: true` with its default pattern
+      dashes: Array.isArray(edge.options.dashes) ? edge.options.dashes : edge.options.dashes ? [5, 15] : undefined,
+    };
+  });
+
+  return { nodes, edges, deviceTypes: Array.from(deviceTypes).sort() };
+};
+
+const centerOf = (box: Box): Point => ({ x: (box.left + box.right) / 2, y: (box.top + box.bottom) / 2 });
+
+const pointOnCurve = (p0: Point, c: Point, p2: Point, t: number): Point => ({
+  x: (1 - t) * (1 - t) * p0.x + 2 * (1 - t) * t * c.x + t * t * p2.x,
+  y: (1 - t) * (1 - t) * p0.y + 2 * (1 - t) * t * c.y + t * t * p2.y,
+});
+
+const isInside = (point: Point, box: Box): boolean =>
+  point.x >= box.left && point.x <= box.right && point.y >= box.top && point.y <= box.bottom;
+
+// Parameter where the curve leaves a node's box, searching from `start` towards `end`
+const findBoxExit = (p0: Point, c: Point, p2: Point, box: Box, start: number, end: number): number => {
+  let inside = start;
+  let outside = end;
+  // Coarse walk to the first sample outside the box, then bisect the crossing
+  const step = (end - start) / 50;
+  for (let t = start; step > 0 ? t <= end : t >= end; t += step) {
+    if (!isInside(pointOnCurve(p0, c, p2, t), box)) {
+      outside = t;
+      break;
+    }
+    inside = t;
+  }
+  for (let i = 0; i < 20; i++) {
+    const middle = (inside + outside) / 2;
+    if (isInside(pointOnCurve(p0, c, p2, middle), box)) {
+      inside = middle;
+    } else {
+      outside = middle;
+    }
+  }
+  return outside;
+};
+
+// Path for the visible part of an edge - from the source box edge to the target box edge
+const buildEdgePath = (edge: SvgEdge, fromBox: Box, toBox: Box): string | null => {
+  const p0 = centerOf(fromBox);
+  const p2 = centerOf(toBox);
+  const c = edge.via || { x: (p0.x + p2.x) / 2, y: (p0.y + p2.y) / 2 };
+
+  const a = findBoxExit(p0, c, p2, fromBox, 0, 1);
+  const b = findBoxExit(p0, c, p2, toBox, 1, 0);
+  if (a >= b) return null; // Overlapping nodes - nothing visible to draw
+
+  // Control point of the [a, b] sub-curve of a quadratic bezier
+  const control = {
+    x: (1 - a) * (1 - b) * p0.x + (a * (1 - b) + b * (1 - a)) * c.x + a * b * p2.x,
+    y: (1 - a) * (1 - b) * p0.y + (a * (1 - b) + b * (1 - a)) * c.y + a * b * p2.y,
+  };
+  const start = pointOnCurve(p0, c, p2, a);
+  const end = pointOnCurve(p0, c, p2, b);
+  return `M ${round(start.x)} ${round(start.y)} Q ${round(control.x)} ${round(control.y)} ${round(end.x)} ${round(end.y)}`;
+};
+
+const renderLegend = (scene: SvgScene, theme: 'light' | 'dark', x: number, y: number): string => {
+  const entries: { swatch: string; label: string }[] = [
+    { swatch: getStatusColor('online'), label: 'Online' },
+    { swatch: getStatusColor('warning'), label: 'Warning' },
+    { swatch: getStatusColor('offline'), label: 'Offline' },
+    { swatch: '#ef4444', label: '🔒 Locked (thick border)' },
+    { swatch: theme === 'dark' ? '#6366f1' : '#3b82f6', label: '✓ Selected' },
+  ];
+  const typeEntries = scene.deviceTypes.map(type => `${getDeviceIcon(type)} ${type}`);
+  const rowHeight = 20;
+  const height = 36 + (entries.length + typeEntries.length) * rowHeight + (typeEntries.length ? 12 : 0);
+
+  const parts = [
+    `<g id="legend" transform="translate(${round(x)} ${round(y)})" font-family="${FONT_FAMILY}" font-size="12">`,
+    `  <rect width="220" height="${height}" rx="8" fill="${CANVAS_BACKGROUND[theme]}" stroke="${TEXT_MUTED[theme]}" stroke-width="1"/>`,
+    `  <text x="12" y="22" font-weight="600" fill="${TEXT_STRONG[theme]}">Legend</text>`,
+  ];
+  entries.forEach((entry, index) => {
+    const rowY = 36 + index * rowHeight;
+    parts.push(
+      `  <rect x="12" y="${rowY}" width="22" height="14" rx="4" fill="none" stroke="${entry.swatch}" stroke-width="2.5"/>`,
+      `  <text x="44" y="${rowY + 11}" fill="${TEXT_STRONG[theme]}">${escapeXml(entry.label)}</text>`
+    );
+  });
+  typeEntries.forEach((label, index) => {
+    const rowY = 48 + (entries.length + index) * rowHeight;
+    parts.push(`  <text x="12" y="${rowY + 11}" fill="${TEXT_STRONG[theme]}">${escapeXml(label)}</text>`);
+  });
+  parts.push('</g>');
+  return parts.join('\n  ');
+};
+
+export const renderTopologySvg = (scene: SvgScene, options: SvgExportOptions): string => {
+  const { theme } = options;
+  const boxes = new Map(scene.nodes.map(node => [node.id, node.box]));
+  const padding = 40;
+
+  const contentLeft = Math.min(...scene.nodes.map(n => n.box.left)) - padding;
+  const contentTop = Math.min(...scene.nodes.map(n => n.box.top)) - padding;
+  const contentRight = Math.max(...scene.nodes.map(n => n.box.right)) + padding;
+  const contentBottom = Math.max(...scene.nodes.map(n => n.box.bottom)) + padding;
+
+  // Title block above the graph, legend to its right
+  const titleHeight = options.title ? 70 : 0;
+  const legendWidth = options.includeLegend ? 260 : 0;
+  const minX = contentLeft;
+  const minY = contentTop - titleHeight;
+  const width = contentRight - contentLeft + legendWidth;
+  const height = contentBottom - minY;
+
+  // One arrowhead marker and one shadow filter per distinct style
+  const markerIds = new Map<string, string>();
+  scene.edges.forEach(edge => {
+    if (!markerIds.has(edge.color)) markerIds.set(edge.color, `arrow-${markerIds.size}`);
+  });
+  const filterIds = new Map<string, string>();
+  scene.nodes.forEach(node => {
+    if (!node.shadow) return;
+    const key = JSON.stringify(node.shadow);
+    if (!filterIds.has(key)) filterIds.set(key, `shadow-${filterIds.size}`);
+  });
+
+  const { viewport } = options;
+  const svgTag = viewport
+    ? `<svg xmlns="http://www.w3.org/2000/svg" width="${viewport.pixelWidth}" height="${viewport.pixelHeight}" viewBox="${round(viewport.x)} ${round(viewport.y)} ${round(viewport.width)} ${round(viewport.height)}">`
+    : `<svg xmlns="http://www.w3.org/2000/svg" width="${round(width)}" height="${round(height)}" viewBox="${round(minX)} ${round(minY)} ${round(width)} ${round(height)}">`;
+
+  const parts = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    svgTag,
+    '  <defs>',
+  ];
+  markerIds.forEach((id, color) => {
+    parts.push(
+      `    <marker id="${id}" viewBox="0 0 10 10" refX="10" refY="5" markerUnits="userSpaceOnUse" markerWidth="${ARROW_LENGTH}" markerHeight="${ARROW_LENGTH}" orient="auto">`,
+      `      <path d="M 0 0 L 10 5 L 0 10 z" fill="${color}"/>`,
+      '    </marker>'
+    );
+  });
+  filterIds.forEach((id, key) => {
+    const shadow = JSON.parse(key) as NonNullable<SvgNode['shadow']>;
+    parts.push(
+      `    <filter id="${id}" x="-50%" y="-50%" width="200%" height="200%">`,
+      `      <feDropShadow dx="${shadow.x}" dy="${shadow.y}" stdDeviation="${round(shadow.size / 2)}" flood-color="${shadow.color}"/>`,
+      '    </filter>'
+    );
+  });
+  parts.push(
+    '  </defs>',
+    `  <rect x="${round(minX)}" y="${round(minY)}" width="${round(width)}" height="${round(height)}" fill="${CANVAS_BACKGROUND[theme]}"/>`
+  );
+
+  if (options.title) {
+    parts.push(
+      `  <g id="title" font-family="${FONT_FAMILY}">`,
+      `    <text x="${round(contentLeft + padding)}" y="${round(minY + 36)}" font-size="22" font-weight="600" fill="${TEXT_STRONG[theme]}">${escapeXml(options.title)}</text>`,
+      `    <text x="${round(contentLeft + padding)}" y="${round(minY + 58)}" font-size="12" fill="${TEXT_MUTED[theme]}">` +
+        `${scene.nodes.length} devices · ${scene.edges.length} relationships · ${escapeXml(new Date().toLocaleString())}</text>`,
+      '  </g>'
+    );
+  }
+
+  parts.push('  <g id="edges" fill="none">');
+  scene.edges.forEach(edge => {
+    const fromBox = boxes.get(edge.from);
+    const toBox = boxes.get(edge.to);
+    if (!fromBox || !toBox) return;
+    const path = buildEdgePath(edge, fromBox, toBox);
+    if (!path) return;
+    const dasharray = edge.dashes ? ` stroke-dasharray="${edge.dashes.join(' ')}"` : '';
+    parts.push(
+      `    <path d="${path}" stroke="${edge.color}" stroke-width="${edge.width}"${dasharray} marker-end="url(#${markerIds.get(edge.color)})"/>`
+    );
+  });
+  parts.push('  </g>', `  <g id="nodes" font-family="${FONT_FAMILY}" font-size="${FONT_SIZE}" text-anchor="middle">`);
+
+  scene.nodes.forEach(node => {
+    const { box } = node;
+    const center = centerOf(box);
+    const filter = node.shadow ? ` filter="url(#${filterIds.get(JSON.stringify(node.shadow))})"` : '';
+    const lineHeight = (box.bottom - box.top - NODE_MARGIN_Y * 2) / node.lines.length;
+    const firstLineY = center.y - ((node.lines.length - 1) * lineHeight) / 2;
+
+    parts.push(
+      `    <g id="node-${escapeXml(node.id)}">`,
+      `      <rect x="${round(box.left)}" y="${round(box.top)}" width="${round(box.right - box.left)}" height="${round(box.bottom - box.top)}" rx="12"` +
+        ` fill="${node.fill}" stroke="${node.stroke}" stroke-width="${node.strokeWidth}"${filter}/>`
+    );
+    node.lines.forEach((line, index) => {
+      parts.push(
+        `      <text x="${round(center.x)}" y="${round(firstLineY + index * lineHeight)}" dominant-baseline="central"` +
+          ` fill="${node.fontColor}" stroke="${node.fontStroke}" stroke-width="2" paint-order="stroke">${escapeXml(line)}</text>`
+      );
+    });
+    parts.push('    </g>');
+  });
+  parts.push('  </g>');
+
+  if (options.includeLegend) {
+    parts.push(`  ${renderLegend(scene, theme, contentRight + 20, contentTop + padding)}`);
+  }
+
+  parts.push('</svg>');
+  return parts.join('\n');
+};